@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import { authMiddleware, captureRawBody, requiredScope, sign, signatureBase, type AuthContext } from "../auth";
+import { AuthError } from "../errors";
+
+type FakeRequest = { method: string; url: string; headers: Record<string, string>; body?: string };
+
+// Request do Express o suficiente pro middleware (path, originalUrl, header(), corpo cru)
+function fakeRequest({ method, url, headers, body }: FakeRequest): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const req = { method, originalUrl: url, path: url.split("?")[0], header: (name: string) => lower[name.toLowerCase()] };
+  if (body !== undefined) captureRawBody(req as never, undefined, Buffer.from(body));
+  return req as unknown as Request;
+}
+
+function authenticate(request: FakeRequest): AuthContext {
+  const res = { locals: {} as Record<string, unknown> };
+  let called = false;
+  authMiddleware(fakeRequest(request), res as unknown as Response, () => (called = true));
+  assert.equal(called, true);
+  return res.locals.auth as AuthContext;
+}
+
+function signed(
+  { method, url, body, phone = "+5511999990000" }: { method: string; url: string; body?: string; phone?: string },
+  overrides: { client?: string; secret?: string; timestamp?: number; nonce?: string } = {},
+): FakeRequest {
+  const timestamp = String(overrides.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? crypto.randomUUID();
+  const base = signatureBase(method, url, body === undefined ? undefined : Buffer.from(body), phone, timestamp, nonce);
+
+  return {
+    method,
+    url,
+    ...(body !== undefined ? { body } : {}),
+    headers: {
+      "x-executor-client": overrides.client ?? "core",
+      "x-executor-timestamp": timestamp,
+      "x-executor-nonce": nonce,
+      "x-executor-signature": sign(overrides.secret ?? "core-secret", base),
+      "x-user-phone": phone,
+    },
+  };
+}
+
+function rejectsWith(code: string, request: FakeRequest, status = 401) {
+  assert.throws(
+    () => authenticate(request),
+    (e: unknown) => e instanceof AuthError && e.code === code && e.status === status,
+  );
+}
+
+describe("signatureBase / sign", () => {
+  it("signs METHOD, path, body hash, phone, timestamp and nonce with HMAC-SHA256", () => {
+    const base = signatureBase("post", "/polymarket/orders/market", Buffer.from('{"a":1}'), "+5511999990000", "1700000000", "nonce-123");
+    const bodyHash = crypto.createHash("sha256").update('{"a":1}').digest("hex");
+
+    assert.equal(base, ["POST", "/polymarket/orders/market", bodyHash, "+5511999990000", "1700000000", "nonce-123"].join("\n"));
+    assert.equal(sign("secret", base), crypto.createHmac("sha256", "secret").update(base).digest("hex"));
+  });
+
+  it("hashes a missing body as empty", () => {
+    const base = signatureBase("GET", "/x", undefined, "", "1", "n");
+    assert.equal(base.split("\n")[2], crypto.createHash("sha256").update("").digest("hex"));
+  });
+});
+
+describe("authMiddleware (signed)", () => {
+  it("accepts a valid signature and exposes the client's scopes", () => {
+    const ctx = authenticate(signed({ method: "POST", url: "/polymarket/orders/market", body: '{"amount":5}' }));
+    assert.deepEqual(ctx, { clientId: "core", scopes: ["markets:read", "account:read", "trading"], mode: "signed" });
+  });
+
+  it("signs the query string too", () => {
+    const request = signed({ method: "GET", url: "/polymarket/positions?tokenIds=1" });
+    rejectsWith("INVALID_SIGNATURE", { ...request, url: "/polymarket/positions?tokenIds=2" });
+  });
+
+  it("rejects a tampered body", () => {
+    const request = signed({ method: "POST", url: "/polymarket/orders/market", body: '{"amount":5}' });
+    rejectsWith("INVALID_SIGNATURE", { ...request, body: '{"amount":500}' });
+  });
+
+  it("rejects a signature made with another client's secret", () => {
+    rejectsWith("INVALID_SIGNATURE", signed({ method: "GET", url: "/polymarket/balance" }, { secret: "reader-secret" }));
+  });
+
+  it("rejects unknown clients", () => {
+    rejectsWith("UNKNOWN_CLIENT", signed({ method: "GET", url: "/polymarket/balance" }, { client: "ghost" }));
+  });
+
+  it("rejects timestamps outside the skew window", () => {
+    const stale = Math.floor(Date.now() / 1000) - 301;
+    rejectsWith("STALE_TIMESTAMP", signed({ method: "GET", url: "/polymarket/balance" }, { timestamp: stale }));
+  });
+
+  it("rejects short nonces", () => {
+    rejectsWith("INVALID_NONCE", signed({ method: "GET", url: "/polymarket/balance" }, { nonce: "short" }));
+  });
+
+  it("rejects a replayed nonce", () => {
+    const request = signed({ method: "GET", url: "/polymarket/balance" });
+    authenticate(request);
+    rejectsWith("REPLAYED_NONCE", request);
+  });
+
+  it("doesn't burn the nonce of a request with a bad signature", () => {
+    const request = signed({ method: "GET", url: "/polymarket/balance" });
+    rejectsWith("INVALID_SIGNATURE", { ...request, headers: { ...request.headers, "x-executor-signature": "00".repeat(32) } });
+    assert.equal(authenticate(request).clientId, "core");
+  });
+
+  it("enforces scopes per route", () => {
+    assert.equal(requiredScope("POST", "/polymarket/orders/market"), "trading");
+    assert.equal(requiredScope("POST", "/polymarket/withdrawals"), "withdrawals");
+    assert.equal(requiredScope("GET", "/polymarket/markets"), "markets:read");
+
+    const reader = signed({ method: "GET", url: "/polymarket/markets" }, { client: "reader", secret: "reader-secret" });
+    assert.equal(authenticate(reader).clientId, "reader");
+
+    const trade = signed({ method: "POST", url: "/polymarket/orders/market", body: "{}" }, { client: "reader", secret: "reader-secret" });
+    rejectsWith("FORBIDDEN_SCOPE", trade, 403);
+  });
+});
+
+describe("authMiddleware (legacy and admin)", () => {
+  it("accepts the legacy token with full access", () => {
+    const ctx = authenticate({ method: "POST", url: "/polymarket/withdrawals", headers: { "x-executor-token": "legacy-token" } });
+    assert.deepEqual(ctx, { clientId: "legacy", scopes: ["*"], mode: "legacy" });
+  });
+
+  it("rejects a wrong legacy token and requests without credentials", () => {
+    rejectsWith("UNAUTHORIZED", { method: "GET", url: "/polymarket/balance", headers: { "x-executor-token": "nope" } });
+    rejectsWith("UNAUTHORIZED", { method: "GET", url: "/polymarket/balance", headers: {} });
+  });
+
+  it("only lets the admin token into /admin", () => {
+    assert.equal(authenticate({ method: "GET", url: "/admin/users", headers: { "x-admin-token": "admin-token" } }).mode, "admin");
+    rejectsWith("UNAUTHORIZED", { method: "GET", url: "/admin/users", headers: { "x-executor-token": "legacy-token" } });
+    rejectsWith("UNAUTHORIZED", { method: "GET", url: "/ADMIN/users", headers: { "x-admin-token": "legacy-token" } });
+  });
+});
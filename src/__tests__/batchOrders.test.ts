@@ -0,0 +1,64 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as clob from "../polymarketClob";
+import * as marketOrders from "../marketOrders";
+import { executeBatch } from "../batchOrders";
+import { RiskError } from "../riskEngine";
+
+const PHONE = "+5511999990003";
+
+// CLOB com USDC de sobra pro pré-check de collateral
+function fakeCollateral() {
+  mock.method(clob, "getL2Client", async () => ({
+    getBalanceAllowance: async () => ({ balance: "1000000000", allowance: "1000000000" }),
+  }));
+}
+
+describe("executeBatch with the unwind policy", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("sells back a filled BUY leg as reduce-only, capped at the leg's recorded fill", async () => {
+    fakeCollateral();
+    const calls: Array<{ side: string; amount: number; options: unknown }> = [];
+    mock.method(marketOrders, "executeMarketOrder", async (_phone: string, order: marketOrders.MarketOrderRequest, _ctx: unknown, options: unknown) => {
+      calls.push({ side: order.side, amount: order.amount, options });
+      if (order.tokenId === "2002") throw new RiskError("RISK_TOKEN_BLOCKED", "Token 2002 is blocked");
+      // $50 a 0.20 = 250 shares
+      return { success: true, orderID: "0x1", makingAmount: "50", takingAmount: "250" };
+    });
+
+    const batch = await executeBatch(
+      PHONE,
+      [
+        { tokenId: "1001", side: "BUY", amount: 50 },
+        { tokenId: "2002", side: "BUY", amount: 10 },
+      ],
+      "unwind",
+    );
+
+    assert.equal(batch.status, "unwound");
+    assert.deepEqual(calls[2], { side: "SELL", amount: 250, options: { reduceOnly: { heldShares: 250 } } });
+    assert.equal(batch.legs[0]?.unwind?.status, "filled");
+  });
+
+  it("buys back a filled SELL leg without reduce-only", async () => {
+    fakeCollateral();
+    const options: unknown[] = [];
+    mock.method(marketOrders, "executeMarketOrder", async (_phone: string, order: marketOrders.MarketOrderRequest, _ctx: unknown, opts: unknown) => {
+      options.push(opts);
+      if (order.tokenId === "2002") throw new Error("boom");
+      return { success: true, orderID: "0x1", makingAmount: "40", takingAmount: "12" };
+    });
+
+    await executeBatch(
+      PHONE,
+      [
+        { tokenId: "1001", side: "SELL", amount: 40 },
+        { tokenId: "2002", side: "SELL", amount: 5 },
+      ],
+      "unwind",
+    );
+
+    assert.deepEqual(options[2], { reduceOnly: undefined });
+  });
+});
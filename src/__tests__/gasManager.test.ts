@@ -0,0 +1,80 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { providers, utils } from "ethers";
+import * as txManager from "../txManager";
+import { TxError, type TxResult } from "../txManager";
+import { ensureGasForAddress, getGasLedger } from "../gasManager";
+import { GasError } from "../gasFees";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => ((resolve = res), (reject = rej)));
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// Carteira do usuário sem gas; a master (qualquer outro endereço) com saldo de sobra
+function fakeBalances(userAddress: string) {
+  mock.method(providers.JsonRpcProvider.prototype, "getBalance", async (address: string) =>
+    utils.parseEther(address === userAddress ? "0" : "100"),
+  );
+}
+
+const timeout = (id: string) => new TxError("TX_TIMEOUT", "Transaction not confirmed yet; it is still tracked", 504, { id, hash: "0xaaa" });
+const result = (id: string, hash: string): TxResult => ({ id, hash, blockNumber: 1, gasUsed: "21000", replaced: false });
+const lastTopUp = (phone: string) => getGasLedger({ phone }).topUps[0];
+
+describe("gas top-up that times out", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("stays pending and rate-limited until the tx confirms", async () => {
+    const phone = "+5511999990010";
+    const address = "0x00000000000000000000000000000000000000A1";
+    fakeBalances(address);
+    const outcome = deferred<TxResult>();
+    const sent = mock.method(txManager, "sendAndConfirm", async () => {
+      throw timeout("tx-1");
+    });
+    mock.method(txManager, "awaitTx", () => outcome.promise);
+
+    await assert.rejects(ensureGasForAddress(address, { phone, reason: "test" }), (e: unknown) => e instanceof TxError && e.code === "TX_TIMEOUT");
+    assert.equal(lastTopUp(phone)?.status, "pending");
+    assert.equal(lastTopUp(phone)?.txHash, "0xaaa");
+
+    // Ainda pode confirmar: um segundo pedido não manda outro top-up
+    await assert.rejects(
+      ensureGasForAddress(address, { phone, reason: "test" }),
+      (e: unknown) => e instanceof GasError && e.code === "GAS_TOPUP_RATE_LIMITED",
+    );
+    assert.equal(sent.mock.callCount(), 1);
+
+    outcome.resolve(result("tx-1", "0xbbb"));
+    await flush();
+    assert.equal(lastTopUp(phone)?.status, "confirmed");
+    assert.equal(lastTopUp(phone)?.txHash, "0xbbb");
+    assert.equal(getGasLedger({ phone }).totalMatic, "0.5");
+  });
+
+  it("becomes failed and frees the limits once the tx is dropped", async () => {
+    const phone = "+5511999990011";
+    const address = "0x00000000000000000000000000000000000000A2";
+    fakeBalances(address);
+    const outcome = deferred<TxResult>();
+    const sent = mock.method(txManager, "sendAndConfirm", async () => {
+      throw timeout("tx-2");
+    });
+    mock.method(txManager, "awaitTx", () => outcome.promise);
+
+    await assert.rejects(ensureGasForAddress(address, { phone, reason: "test" }));
+    outcome.reject(new TxError("TX_DROPPED", "Nonce used by another transaction", 502, { id: "tx-2" }));
+    await flush();
+    assert.equal(lastTopUp(phone)?.status, "failed");
+
+    sent.mock.mockImplementation(async () => result("tx-3", "0xccc"));
+    await ensureGasForAddress(address, { phone, reason: "test" });
+    assert.equal(sent.mock.callCount(), 2);
+    assert.equal(lastTopUp(phone)?.status, "confirmed");
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { hashPhone } from "../localStore";
+import { UpstreamError } from "../errors";
+import { RiskError } from "../riskEngine";
+
+const PHONE = "+5511999990001";
+const ORDER = { tokenId: "1001", side: "BUY", amount: 10 };
+
+// Chaves deixadas in_progress por um processo que caiu no meio da chamada (antes de abrir o store)
+function seedOrphans() {
+  const fingerprint = crypto.createHash("sha256").update(JSON.stringify(ORDER)).digest("hex");
+  const orphan = (startedAgoMs: number) => {
+    const at = new Date(Date.now() - startedAgoMs).toISOString();
+    return { fingerprint, status: "in_progress", createdAt: at, startedAt: at };
+  };
+  fs.writeFileSync(
+    path.join(process.env.EXECUTOR_DATA_DIR!, "idempotency.json"),
+    JSON.stringify({
+      [`${hashPhone(PHONE)}:crashed-recent`]: orphan(1_000),
+      [`${hashPhone(PHONE)}:crashed-stale`]: orphan(5 * 60_000),
+    }),
+  );
+}
+
+seedOrphans();
+
+// Import depois da semente: o store lê o arquivo ao abrir
+const { withIdempotency, IdempotencyError } = require("../idempotency") as typeof import("../idempotency");
+const { isFailedResponse } = require("../tradeLedger") as typeof import("../tradeLedger");
+
+describe("withIdempotency", () => {
+  it("runs without a key every time", async () => {
+    let calls = 0;
+    await withIdempotency(undefined, PHONE, ORDER, async () => ++calls);
+    await withIdempotency(undefined, PHONE, ORDER, async () => ++calls);
+    assert.equal(calls, 2);
+  });
+
+  it("replays the stored result for the same key and body", async () => {
+    let calls = 0;
+    const first = await withIdempotency("replay", PHONE, ORDER, async () => ({ orderID: `o${++calls}` }));
+    const second = await withIdempotency("replay", PHONE, ORDER, async () => ({ orderID: `o${++calls}` }));
+
+    assert.deepEqual(first, { result: { orderID: "o1" }, replayed: false });
+    assert.deepEqual(second, { result: { orderID: "o1" }, replayed: true });
+    assert.equal(calls, 1);
+  });
+
+  it("scopes keys per user", async () => {
+    await withIdempotency("scoped", PHONE, ORDER, async () => "a");
+    const other = await withIdempotency("scoped", "+5511999990002", ORDER, async () => "b");
+    assert.deepEqual(other, { result: "b", replayed: false });
+  });
+
+  it("rejects the same key with a different body", async () => {
+    await withIdempotency("mismatch", PHONE, ORDER, async () => "ok");
+    await assert.rejects(
+      withIdempotency("mismatch", PHONE, { ...ORDER, amount: 11 }, async () => "ok"),
+      (e: unknown) => e instanceof IdempotencyError && e.code === "IDEMPOTENCY_KEY_MISMATCH" && e.status === 422,
+    );
+  });
+
+  it("makes a concurrent retry wait for the running call", async () => {
+    let calls = 0;
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+
+    const first = withIdempotency("concurrent", PHONE, ORDER, async () => {
+      calls++;
+      await gate;
+      return "filled";
+    });
+    const second = withIdempotency("concurrent", PHONE, ORDER, async () => ++calls);
+    release();
+
+    assert.deepEqual(await first, { result: "filled", replayed: false });
+    assert.deepEqual(await second, { result: "filled", replayed: true });
+    assert.equal(calls, 1);
+  });
+
+  it("keeps a rejected CLOB response as failed and runs the retry again", async () => {
+    const rejected = { success: false, errorMsg: "not enough balance / allowance", orderID: "" };
+    const failed = await withIdempotency("clob-failed", PHONE, ORDER, async () => rejected, { isFailure: isFailedResponse });
+    assert.deepEqual(failed, { result: rejected, replayed: false });
+
+    const retried = await withIdempotency("clob-failed", PHONE, ORDER, async () => ({ success: true, orderID: "0xabc" }), {
+      isFailure: isFailedResponse,
+    });
+    assert.deepEqual(retried, { result: { success: true, orderID: "0xabc" }, replayed: false });
+
+    const replayed = await withIdempotency("clob-failed", PHONE, ORDER, async () => ({ success: true, orderID: "0xdef" }), {
+      isFailure: isFailedResponse,
+    });
+    assert.deepEqual(replayed, { result: { success: true, orderID: "0xabc" }, replayed: true });
+  });
+
+  it("keeps a call rejected before the CLOB as failed and runs the retry again", async () => {
+    await assert.rejects(
+      withIdempotency("rejected", PHONE, ORDER, async () => {
+        throw new RiskError("RISK_DAILY_NOTIONAL", "Daily notional would reach 2010 (max 2000)");
+      }),
+      RiskError,
+    );
+    assert.deepEqual(await withIdempotency("rejected", PHONE, ORDER, async () => "ok"), { result: "ok", replayed: false });
+  });
+
+  it("locks the key after an ambiguous upstream failure instead of posting again", async () => {
+    const timeout = new UpstreamError("UPSTREAM_TIMEOUT", "timeout of 10000ms exceeded", 504, "clob");
+    await assert.rejects(
+      withIdempotency("ambiguous", PHONE, ORDER, async () => {
+        throw timeout;
+      }),
+      (e: unknown) => e === timeout,
+    );
+
+    let calls = 0;
+    await assert.rejects(
+      withIdempotency("ambiguous", PHONE, ORDER, async () => ++calls),
+      (e: unknown) =>
+        e instanceof IdempotencyError &&
+        e.code === "IDEMPOTENCY_OUTCOME_UNKNOWN" &&
+        e.status === 409 &&
+        (e.details as { error?: { code?: string } }).error?.code === "UPSTREAM_TIMEOUT",
+    );
+    assert.equal(calls, 0);
+  });
+
+  it("treats unknown errors as ambiguous and upstream refusals as definite", async () => {
+    const fail = (key: string, error: unknown) => withIdempotency(key, PHONE, ORDER, async () => Promise.reject(error)).catch(() => undefined);
+
+    await fail("unknown-error", new Error("socket hang up"));
+    await assert.rejects(withIdempotency("unknown-error", PHONE, ORDER, async () => "again"), IdempotencyError);
+
+    await fail("rate-limited", new UpstreamError("UPSTREAM_RATE_LIMITED", "Too many requests", 503, "clob"));
+    assert.deepEqual(await withIdempotency("rate-limited", PHONE, ORDER, async () => "again"), { result: "again", replayed: false });
+  });
+});
+
+describe("withIdempotency with keys orphaned by a crash", () => {
+  it("answers 409 while the lease holds and takes the key over after it", async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      withIdempotency("crashed-recent", PHONE, ORDER, async () => ++calls),
+      (e: unknown) => e instanceof IdempotencyError && e.code === "IDEMPOTENCY_KEY_IN_PROGRESS" && e.status === 409,
+    );
+
+    const takeover = await withIdempotency("crashed-stale", PHONE, ORDER, async () => ++calls);
+    assert.deepEqual(takeover, { result: 1, replayed: false });
+  });
+});
+
+describe("isFailedResponse", () => {
+  it("flags CLOB failures only", () => {
+    assert.equal(isFailedResponse({ success: false, errorMsg: "x" }), true);
+    assert.equal(isFailedResponse({ error: "market closed", status: 400 }), true);
+    assert.equal(isFailedResponse({ errorMsg: "x", orderID: "" }), true);
+    assert.equal(isFailedResponse(null), true);
+    assert.equal(isFailedResponse({ success: true, orderID: "0x1", status: "matched" }), false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+// Paper mode: CLOB simulado em processo, sem rede
+process.env.EXECUTOR_MODE = "paper";
+const { app } = require("../app") as typeof import("../app");
+
+const PHONE = "+5511999990001";
+// Sem fixture: book determinístico com tick 0.01
+const TOKEN = "424242";
+const OTHER_TOKEN = "434343";
+
+let server: Server;
+let baseUrl: string;
+
+async function call(method: string, route: string, body?: unknown, phone = PHONE) {
+  const res = await fetch(baseUrl + route, {
+    method,
+    headers: {
+      "content-type": "application/json",
+      "x-executor-token": "legacy-token",
+      ...(phone ? { "x-user-phone": phone } : {}),
+    },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+const placeLimit = (order: Record<string, unknown>) =>
+  call("POST", "/polymarket/orders/limit", { tokenId: TOKEN, side: "BUY", price: 0.05, size: 10, ...order });
+
+describe("limit order routes", () => {
+  before(async () => {
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  it("places a GTC order and returns it from open orders and by id", async () => {
+    const placed = await placeLimit({});
+    assert.equal(placed.status, 200);
+    assert.equal(placed.body.data.success, true);
+    const id = placed.body.data.orderID as string;
+
+    const open = await call("GET", `/polymarket/orders/open?tokenId=${TOKEN}`);
+    assert.equal(open.status, 200);
+    assert.ok(open.body.data.some((o: { id: string }) => o.id === id));
+
+    const one = await call("GET", `/polymarket/orders/${id}`);
+    assert.equal(one.status, 200);
+    assert.equal(one.body.data.price, "0.05");
+    assert.equal(one.body.data.order_type, "GTC");
+  });
+
+  it("requires a future expiration for GTD orders", async () => {
+    const missing = await placeLimit({ orderType: "GTD" });
+    assert.equal(missing.status, 400);
+    assert.equal(missing.body.error, "VALIDATION_ERROR");
+
+    const tooSoon = await placeLimit({ orderType: "GTD", expiration: Math.floor(Date.now() / 1000) + 10 });
+    assert.equal(tooSoon.status, 400);
+
+    const placed = await placeLimit({ orderType: "GTD", expiration: Math.floor(Date.now() / 1000) + 3600 });
+    assert.equal(placed.status, 200);
+    assert.equal(placed.body.data.success, true);
+  });
+
+  it("rejects a price off the market tick", async () => {
+    const res = await placeLimit({ price: 0.055 });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, "INVALID_PRICE_TICK");
+    assert.equal(res.body.details.tickSize, "0.01");
+  });
+
+  it("requires the user phone header", async () => {
+    const res = await call("GET", "/polymarket/orders/open", undefined, "");
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, "MISSING_USER_PHONE_HEADER");
+  });
+
+  it("returns 404 for an unknown order and for another user's order", async () => {
+    const unknown = await call("GET", "/polymarket/orders/0xdeadbeef");
+    assert.equal(unknown.status, 404);
+    assert.equal(unknown.body.error, "ORDER_NOT_FOUND");
+
+    const placed = await placeLimit({});
+    const foreign = await call("GET", `/polymarket/orders/${placed.body.data.orderID}`, undefined, "+5511999990002");
+    assert.equal(foreign.status, 404);
+  });
+
+  it("cancels one order", async () => {
+    const id = (await placeLimit({})).body.data.orderID as string;
+
+    const res = await call("DELETE", `/polymarket/orders/${id}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.data.canceled, [id]);
+    assert.equal((await call("GET", `/polymarket/orders/${id}`)).status, 404);
+
+    const again = await call("DELETE", `/polymarket/orders/${id}`);
+    assert.deepEqual(again.body.data.canceled, []);
+    assert.ok(id in again.body.data.not_canceled);
+  });
+
+  it("cancels only the filtered market, then everything", async () => {
+    const keep = (await placeLimit({})).body.data.orderID as string;
+    const other = (await placeLimit({ tokenId: OTHER_TOKEN })).body.data.orderID as string;
+
+    const filtered = await call("DELETE", `/polymarket/orders?tokenId=${OTHER_TOKEN}`);
+    assert.equal(filtered.status, 200);
+    assert.deepEqual(filtered.body.data.canceled, [other]);
+    assert.equal((await call("GET", `/polymarket/orders/${keep}`)).status, 200);
+
+    const all = await call("DELETE", "/polymarket/orders");
+    assert.equal(all.status, 200);
+    assert.ok(all.body.data.canceled.includes(keep));
+    assert.deepEqual((await call("GET", "/polymarket/orders/open")).body.data, []);
+  });
+});
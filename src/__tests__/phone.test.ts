@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyPhoneMask, isPhoneVariant, normalizePhone, phoneFormatMask } from "../phone";
+import { ValidationError } from "../errors";
+
+const PHONE = "+5511912345678";
+
+describe("normalizePhone", () => {
+  it("maps every format of the same number to one E.164 phone", () => {
+    for (const raw of ["+55 11 91234-5678", "0055 (11) 91234.5678", "5511 91234-5678", "11 91234-5678", "011 91234-5678"]) {
+      assert.equal(normalizePhone(raw), PHONE, raw);
+    }
+    assert.equal(normalizePhone("+1 415 555 0100"), "+14155550100");
+  });
+
+  it("rejects invalid numbers", () => {
+    for (const raw of ["abc", "+55 11", "+0 11 91234-5678", "+1234567890123456"]) {
+      assert.throws(() => normalizePhone(raw), (e: unknown) => e instanceof ValidationError && e.code === "INVALID_PHONE", raw);
+    }
+  });
+});
+
+describe("isPhoneVariant", () => {
+  it("accepts international and full national formats", () => {
+    assert.equal(isPhoneVariant("+55 (11) 91234-5678", PHONE), true);
+    assert.equal(isPhoneVariant("5511912345678", PHONE), true);
+    assert.equal(isPhoneVariant("(11) 91234-5678", PHONE), true);
+  });
+
+  it("rejects a shorter suffix of the number", () => {
+    assert.equal(isPhoneVariant("12345678", PHONE), false);
+    assert.equal(isPhoneVariant("912345678", PHONE), false);
+    assert.equal(isPhoneVariant("1912345678", PHONE), false);
+  });
+
+  it("rejects other numbers and garbage", () => {
+    assert.equal(isPhoneVariant("+1 415 555 0100", PHONE), false);
+    assert.equal(isPhoneVariant("not a phone", PHONE), false);
+  });
+
+  it("drops mask reconstructions that aren't a full format of the phone", () => {
+    assert.equal(isPhoneVariant(applyPhoneMask(PHONE, phoneFormatMask("(11) 91234-5678")), PHONE), true);
+    assert.equal(isPhoneVariant(applyPhoneMask(PHONE, phoneFormatMask("9 1234-5678")), PHONE), false);
+  });
+});
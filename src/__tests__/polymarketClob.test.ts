@@ -0,0 +1,48 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { ClobClient, OrderType, Side } from "@polymarket/clob-client";
+import { Wallet } from "ethers";
+import { withErrorUnwrapping } from "../polymarketClob";
+import { UpstreamError, toExecutorError } from "../errors";
+
+// clob-client de verdade, sem rede: book, tick e fee rate vêm de mocks
+function clientWithBook(book: { bids: unknown[]; asks: unknown[] } | null) {
+  mock.method(ClobClient.prototype, "getOrderBook", async () => book);
+  mock.method(ClobClient.prototype, "getTickSize", async () => "0.01");
+  mock.method(ClobClient.prototype, "getFeeRateBps", async () => 0);
+  return withErrorUnwrapping(new ClobClient("http://127.0.0.1:1", 137, new Wallet(crypto.randomBytes(32))));
+}
+
+function rejectsWith(code: string, status: number) {
+  return (e: unknown) => e instanceof UpstreamError && e.upstream === "clob" && e.code === code && e.status === status;
+}
+
+describe("withErrorUnwrapping", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("maps a market order on an empty book to 422 NO_LIQUIDITY", async () => {
+    const client = clientWithBook({ bids: [], asks: [] });
+
+    await assert.rejects(
+      client.createAndPostMarketOrder({ tokenID: "1001", side: Side.BUY, amount: 10 }, { tickSize: "0.01", negRisk: false }, OrderType.FAK),
+      rejectsWith("NO_LIQUIDITY", 422),
+    );
+  });
+
+  it("maps a missing book to 404 ORDERBOOK_NOT_FOUND", async () => {
+    const client = clientWithBook(null);
+
+    await assert.rejects(client.calculateMarketPrice("1001", Side.SELL, 5), rejectsWith("ORDERBOOK_NOT_FOUND", 404));
+  });
+
+  it("maps an invalid limit price to 400 INVALID_ORDER", async () => {
+    const client = clientWithBook({ bids: [], asks: [] });
+
+    const error = await client
+      .createAndPostOrder({ tokenID: "1001", side: Side.BUY, price: 1.5, size: 10 }, { tickSize: "0.01", negRisk: false })
+      .catch((e: unknown) => e);
+    assert.ok(rejectsWith("INVALID_ORDER", 400)(error));
+    assert.equal(toExecutorError(error).status, 400);
+  });
+});
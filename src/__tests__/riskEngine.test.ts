@@ -0,0 +1,130 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { checkOrder, getRiskLimits, RiskError } from "../riskEngine";
+
+const RISK_ENV = ["RISK_KILL_SWITCH", "RISK_MAX_ORDER_NOTIONAL", "RISK_MAX_DAILY_NOTIONAL", "RISK_MAX_ORDERS_PER_MINUTE", "RISK_TOKEN_ALLOWLIST", "RISK_TOKEN_BLOCKLIST"];
+
+// Um telefone por teste: uso diário e rate limit são por usuário
+let seq = 0;
+const nextPhone = () => `+55119000000${String(++seq).padStart(2, "0")}`;
+
+function rejectsWith(code: string, fn: () => unknown) {
+  assert.throws(fn, (e: unknown) => e instanceof RiskError && e.code === code);
+}
+
+const buy = (notional: number, tokenId = "1001") => ({ tokenId, side: "BUY" as const, notional });
+
+describe("checkOrder", () => {
+  afterEach(() => {
+    for (const name of RISK_ENV) delete process.env[name];
+  });
+
+  it("passes everything without limits", () => {
+    assert.doesNotThrow(() => checkOrder(nextPhone(), buy(1_000_000)));
+  });
+
+  it("halts trading with the kill switch", () => {
+    process.env.RISK_KILL_SWITCH = "true";
+    assert.equal(getRiskLimits(nextPhone()).killSwitch, true);
+    rejectsWith("RISK_KILL_SWITCH", () => checkOrder(nextPhone(), buy(1)));
+  });
+
+  it("enforces the token blocklist and allowlist", () => {
+    process.env.RISK_TOKEN_BLOCKLIST = "666";
+    rejectsWith("RISK_TOKEN_BLOCKED", () => checkOrder(nextPhone(), buy(1, "666")));
+
+    delete process.env.RISK_TOKEN_BLOCKLIST;
+    process.env.RISK_TOKEN_ALLOWLIST = "1001,1002";
+    rejectsWith("RISK_TOKEN_NOT_ALLOWED", () => checkOrder(nextPhone(), buy(1, "2001")));
+    assert.doesNotThrow(() => checkOrder(nextPhone(), buy(1, "1002")));
+  });
+
+  it("caps the notional per order", () => {
+    process.env.RISK_MAX_ORDER_NOTIONAL = "50";
+    rejectsWith("RISK_MAX_NOTIONAL", () => checkOrder(nextPhone(), buy(50.01)));
+    assert.doesNotThrow(() => checkOrder(nextPhone(), buy(50)));
+  });
+
+  it("reserves daily notional synchronously so concurrent orders can't all pass", () => {
+    process.env.RISK_MAX_DAILY_NOTIONAL = "30";
+    const phone = nextPhone();
+
+    checkOrder(phone, buy(10));
+    checkOrder(phone, buy(10));
+    checkOrder(phone, buy(10));
+    rejectsWith("RISK_DAILY_NOTIONAL", () => checkOrder(phone, buy(10)));
+  });
+
+  it("gives the reservation back on release, once", () => {
+    process.env.RISK_MAX_DAILY_NOTIONAL = "30";
+    const phone = nextPhone();
+
+    checkOrder(phone, buy(20));
+    const failed = checkOrder(phone, buy(10));
+    failed.release();
+    failed.release();
+
+    assert.doesNotThrow(() => checkOrder(phone, buy(10)));
+    rejectsWith("RISK_DAILY_NOTIONAL", () => checkOrder(phone, buy(1)));
+  });
+
+  it("rate limits orders per minute with 429", () => {
+    process.env.RISK_MAX_ORDERS_PER_MINUTE = "2";
+    const phone = nextPhone();
+
+    checkOrder(phone, buy(1));
+    checkOrder(phone, buy(1));
+    assert.throws(
+      () => checkOrder(phone, buy(1)),
+      (e: unknown) => e instanceof RiskError && e.code === "RISK_RATE_LIMIT" && e.status === 429,
+    );
+  });
+});
+
+describe("checkOrder with reduce-only orders", () => {
+  afterEach(() => {
+    for (const name of RISK_ENV) delete process.env[name];
+  });
+
+  const sell = (shares: number, heldShares: number) => ({
+    tokenId: "1001",
+    side: "SELL" as const,
+    notional: shares,
+    reduceOnly: { heldShares, shares },
+  });
+
+  it("skips the kill switch, the per-order and daily caps and the rate limit", () => {
+    process.env.RISK_KILL_SWITCH = "true";
+    process.env.RISK_MAX_ORDER_NOTIONAL = "100";
+    process.env.RISK_MAX_DAILY_NOTIONAL = "1";
+    process.env.RISK_MAX_ORDERS_PER_MINUTE = "1";
+    const phone = nextPhone();
+
+    // BUY de $50 a 0.20 = 250 shares: o unwind vende 250, acima do cap por ordem
+    assert.doesNotThrow(() => checkOrder(phone, sell(250, 250)));
+    assert.doesNotThrow(() => checkOrder(phone, sell(10, 10)));
+  });
+
+  it("doesn't count towards the daily cap", () => {
+    process.env.RISK_MAX_DAILY_NOTIONAL = "10";
+    const phone = nextPhone();
+
+    checkOrder(phone, sell(50, 50));
+    assert.doesNotThrow(() => checkOrder(phone, buy(10)));
+  });
+
+  it("must sell at most the shares held", () => {
+    assert.throws(
+      () => checkOrder(nextPhone(), sell(10.5, 10)),
+      (e: unknown) => e instanceof RiskError && e.code === "RISK_NOT_REDUCING" && e.status === 422,
+    );
+    rejectsWith("RISK_NOT_REDUCING", () =>
+      checkOrder(nextPhone(), { ...buy(5), reduceOnly: { heldShares: 10, shares: 5 } }),
+    );
+  });
+
+  it("still respects the blocklist", () => {
+    process.env.RISK_TOKEN_BLOCKLIST = "1001";
+    rejectsWith("RISK_TOKEN_BLOCKED", () => checkOrder(nextPhone(), sell(1, 1)));
+  });
+});
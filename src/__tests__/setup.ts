@@ -0,0 +1,33 @@
+/**
+ * Test environment (loaded with --require before every test file)
+ * Each test file runs in its own process with a fresh EXECUTOR_DATA_DIR, so stores
+ * never leak between files. Env that modules read at import time is set here.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const env: Record<string, string> = {
+  EXECUTOR_DATA_DIR: fs.mkdtempSync(path.join(os.tmpdir(), "executor-test-")),
+  // Chave de teste conhecida (hardhat #1), nunca usada em produção
+  POLYMARKET_PRIVATE_KEY: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  POLY_EXCHANGE_ADDRESS: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E",
+  POLY_CTF_ADDRESS: "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045",
+  POLY_COLLATERAL_TOKEN_ADDRESS: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+  POLYGON_RPC_URL: "http://127.0.0.1:1",
+  EXECUTOR_API_TOKEN: "legacy-token",
+  EXECUTOR_ADMIN_TOKEN: "admin-token",
+  EXECUTOR_API_CLIENTS: JSON.stringify([
+    { id: "core", secret: "core-secret", scopes: ["markets:read", "account:read", "trading"] },
+    { id: "reader", secret: "reader-secret", scopes: ["markets:read"] },
+  ]),
+  // Monitor de txs rápido o bastante pra testar substituição
+  TX_POLL_SECONDS: "0.02",
+  TX_STUCK_AFTER_SECONDS: "0.05",
+  TX_WAIT_TIMEOUT_SECONDS: "2",
+};
+
+for (const [name, value] of Object.entries(env)) process.env[name] = value;
+
+process.on("exit", () => fs.rmSync(process.env.EXECUTOR_DATA_DIR!, { recursive: true, force: true }));
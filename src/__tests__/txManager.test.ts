@@ -0,0 +1,203 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { BigNumber, Wallet, providers, utils } from "ethers";
+import { awaitTx, listTransactions, sendAndConfirm, trackedTxId, TxError, type TxResult } from "../txManager";
+
+type Sent = { from: string; hash: string; nonce: number; maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber };
+
+// Chain de mentira nos protótipos do ethers: contagem de nonce, envios e receipts controlados pelo teste
+function fakeChain() {
+  const chain = {
+    pending: 0,
+    latest: 0,
+    // Leituras atrasadas de "pending" (RPC atrás do mempool), consumidas antes de `pending`
+    staleReads: [] as number[],
+    autoMine: true as boolean | "revert",
+    sent: [] as Sent[],
+    receipts: new Map<string, { status: number; blockNumber: number; gasUsed: BigNumber }>(),
+    failNext: [] as unknown[],
+    mine(hash: string, status = 1) {
+      chain.receipts.set(hash, { status, blockNumber: 100, gasUsed: BigNumber.from(21000) });
+    },
+  };
+
+  mock.method(providers.JsonRpcProvider.prototype, "getTransactionCount", async (_address: string, tag: string) =>
+    tag === "latest" ? chain.latest : (chain.staleReads.shift() ?? chain.pending),
+  );
+  mock.method(providers.JsonRpcProvider.prototype, "getFeeData", async () => ({
+    lastBaseFeePerGas: utils.parseUnits("40", "gwei"),
+    maxPriorityFeePerGas: utils.parseUnits("30", "gwei"),
+    maxFeePerGas: null,
+    gasPrice: null,
+  }));
+  mock.method(providers.JsonRpcProvider.prototype, "getTransactionReceipt", async (hash: string) => chain.receipts.get(hash) ?? null);
+  mock.method(Wallet.prototype, "estimateGas", async () => BigNumber.from(100_000));
+  mock.method(Wallet.prototype, "sendTransaction", async function (this: Wallet, tx: providers.TransactionRequest) {
+    const failure = chain.failNext.shift();
+    if (failure) throw failure;
+
+    const hash = utils.hexlify(crypto.randomBytes(32));
+    chain.sent.push({
+      from: this.address,
+      hash,
+      nonce: Number(tx.nonce),
+      maxFeePerGas: BigNumber.from(tx.maxFeePerGas),
+      maxPriorityFeePerGas: BigNumber.from(tx.maxPriorityFeePerGas),
+    });
+    if (chain.autoMine) chain.mine(hash, chain.autoMine === "revert" ? 0 : 1);
+    return { hash } as providers.TransactionResponse;
+  });
+
+  return chain;
+}
+
+// Carteira nova por teste: o nonce local é por endereço
+const newWallet = () => new Wallet(crypto.randomBytes(32));
+const transfer = { to: "0x00000000000000000000000000000000000000aa", value: 1 };
+
+async function until(condition: () => boolean, timeoutMs = 1_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function rejectsWith(code: string, status: number) {
+  return (e: unknown) => e instanceof TxError && e.code === code && e.status === status;
+}
+
+describe("sendAndConfirm nonces", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("gives concurrent sends from one wallet consecutive nonces", async () => {
+    const chain = fakeChain();
+    chain.pending = 7;
+    const wallet = newWallet();
+
+    const results = await Promise.all([
+      sendAndConfirm(wallet, transfer, { kind: "transfer" }),
+      sendAndConfirm(wallet, transfer, { kind: "transfer" }),
+      sendAndConfirm(wallet, transfer, { kind: "transfer" }),
+    ]);
+
+    assert.deepEqual(chain.sent.map((s) => s.nonce), [7, 8, 9]);
+    assert.deepEqual(results.map((r) => r.hash), chain.sent.map((s) => s.hash));
+    assert.ok(results.every((r) => !r.replaced));
+  });
+
+  it("resyncs with the chain and retries once on a nonce error", async () => {
+    const chain = fakeChain();
+    // Nonce 4 já usado por uma tx de fora do executor, mas o RPC ainda não viu
+    chain.pending = 5;
+    chain.staleReads.push(4);
+    chain.failNext.push(new Error("nonce too low"));
+
+    const result = await sendAndConfirm(newWallet(), transfer, { kind: "transfer" });
+    assert.deepEqual(chain.sent.map((s) => s.nonce), [5]);
+    assert.equal(result.hash, chain.sent[0]!.hash);
+  });
+
+  it("wraps a refused broadcast in TX_SEND_FAILED", async () => {
+    const chain = fakeChain();
+    const wallet = newWallet();
+    chain.failNext.push(Object.assign(new Error("insufficient funds for intrinsic transaction cost"), { code: "INSUFFICIENT_FUNDS" }));
+
+    await assert.rejects(sendAndConfirm(wallet, transfer, { kind: "transfer" }), (e: unknown) => {
+      assert.ok(rejectsWith("TX_SEND_FAILED", 502)(e));
+      assert.deepEqual((e as TxError).details, { kind: "transfer", address: wallet.address, rpcCode: "INSUFFICIENT_FUNDS" });
+      return true;
+    });
+    assert.equal(chain.sent.length, 0);
+  });
+
+  it("wraps a failed retry after a nonce error in TX_SEND_FAILED", async () => {
+    const chain = fakeChain();
+    chain.failNext.push(new Error("nonce too low"), new Error("replacement fee too low"));
+
+    await assert.rejects(sendAndConfirm(newWallet(), transfer, { kind: "approve" }), rejectsWith("TX_SEND_FAILED", 502));
+  });
+
+  it("rejects with TX_WOULD_REVERT when the estimate fails, without sending", async () => {
+    const chain = fakeChain();
+    mock.method(Wallet.prototype, "estimateGas", async () => {
+      throw Object.assign(new Error("execution reverted"), { reason: "ERC20: transfer amount exceeds balance" });
+    });
+
+    await assert.rejects(sendAndConfirm(newWallet(), transfer, { kind: "transfer" }), (e: unknown) => {
+      assert.ok(rejectsWith("TX_WOULD_REVERT", 422)(e));
+      assert.equal((e as TxError).message, "ERC20: transfer amount exceeds balance");
+      return true;
+    });
+    assert.equal(chain.sent.length, 0);
+  });
+});
+
+describe("sendAndConfirm monitoring", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("replaces a stuck tx with bumped fees on the same nonce", async () => {
+    const chain = fakeChain();
+    chain.autoMine = false;
+    chain.pending = 3;
+
+    const pending = sendAndConfirm(newWallet(), transfer, { kind: "redeem" });
+    await until(() => chain.sent.length === 2);
+
+    const [original, speedup] = chain.sent as [Sent, Sent];
+    assert.equal(speedup.nonce, original.nonce);
+    assert.ok(speedup.maxFeePerGas.gte(original.maxFeePerGas.mul(125).div(100)));
+    assert.ok(speedup.maxPriorityFeePerGas.gte(original.maxPriorityFeePerGas.mul(125).div(100)));
+
+    chain.mine(speedup.hash);
+    const result = await pending;
+    assert.equal(result.hash, speedup.hash);
+    assert.equal(result.replaced, true);
+
+    const [record] = listTransactions({ address: original.from }).transactions;
+    assert.equal(record?.status, "confirmed");
+    assert.deepEqual(record?.attempts.map((a) => a.type), ["original", "speedup"]);
+  });
+
+  it("rejects with TX_REVERTED when the mined receipt failed", async () => {
+    const chain = fakeChain();
+    chain.autoMine = "revert";
+
+    await assert.rejects(sendAndConfirm(newWallet(), transfer, { kind: "redeem" }), rejectsWith("TX_REVERTED", 422));
+  });
+
+  it("rejects with TX_DROPPED when another tx takes the nonce", async () => {
+    const chain = fakeChain();
+    chain.autoMine = false;
+
+    const pending = sendAndConfirm(newWallet(), transfer, { kind: "transfer" });
+    await until(() => chain.sent.length === 1);
+    chain.latest = 1;
+
+    await assert.rejects(pending, rejectsWith("TX_DROPPED", 502));
+  });
+
+  it("keeps tracking a tx after TX_TIMEOUT and settles it through awaitTx", async () => {
+    const chain = fakeChain();
+    chain.autoMine = false;
+
+    const error = await sendAndConfirm(newWallet(), transfer, { kind: "withdrawal" }).catch((e: unknown) => e);
+    assert.ok(rejectsWith("TX_TIMEOUT", 504)(error));
+    const id = trackedTxId(error);
+    assert.ok(id);
+    assert.equal(trackedTxId(new TxError("TX_DROPPED", "dropped", 502, { id })), null);
+
+    let result: TxResult | undefined;
+    void awaitTx(id).then((r) => (result = r));
+    chain.mine(chain.sent[chain.sent.length - 1]!.hash);
+    // O monitor roda num interval unref'd: o polling mantém o event loop vivo
+    await until(() => result !== undefined);
+    assert.ok(result);
+    assert.equal(result.id, id);
+    assert.equal(result.hash, chain.sent[chain.sent.length - 1]!.hash);
+
+    // Já finalizada: responde na hora
+    assert.deepEqual(await awaitTx(id), result);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { hashPhone } from "../localStore";
+import * as onchain from "../polymarketOnchain";
+import * as txManager from "../txManager";
+import { TxError, type TxResult } from "../txManager";
+
+const PHONE = "+5511999990000";
+// Destino já liberado: entrada legada (string pura) de antes do cooldown
+const TRUSTED = "0x00000000000000000000000000000000000000aa";
+const FRESH = "0x00000000000000000000000000000000000000bb";
+
+fs.writeFileSync(
+  path.join(process.env.EXECUTOR_DATA_DIR!, "withdrawal-allowlist.json"),
+  JSON.stringify({ [hashPhone(PHONE)]: [onchain.normalizeAddress(TRUSTED, "test")] }),
+);
+
+// Import depois da semente: o store lê o arquivo ao abrir
+const withdrawals = require("../withdrawals") as typeof import("../withdrawals");
+const { WithdrawalError } = withdrawals;
+
+function rejectsWith(code: string, fn: () => unknown) {
+  assert.throws(fn, (e: unknown) => e instanceof WithdrawalError && e.code === code);
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => ((resolve = res), (reject = rej)));
+  return { promise, resolve, reject };
+}
+
+const statusOf = (id: string) => withdrawals.listWithdrawals(PHONE).find((w) => w.id === id)?.status;
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+async function rejectsAsync(code: string, promise: Promise<unknown>) {
+  await assert.rejects(promise, (e: unknown) => e instanceof WithdrawalError && e.code === code);
+}
+
+describe("withdrawal allowlist", () => {
+  it("treats legacy entries as active", () => {
+    const [entry] = withdrawals.getAllowlist(PHONE);
+    assert.equal(entry?.address, onchain.normalizeAddress(TRUSTED, "test"));
+    assert.equal(entry?.active, true);
+  });
+
+  it("holds a new destination for the cooldown", () => {
+    const before = Date.now();
+    const entry = withdrawals.addToAllowlist(PHONE, FRESH).find((e) => e.address === onchain.normalizeAddress(FRESH, "test"));
+
+    assert.equal(entry?.active, false);
+    const cooldown = Date.parse(entry!.activeAt) - Date.parse(entry!.addedAt);
+    assert.equal(cooldown, 24 * 60 * 60 * 1000);
+    assert.ok(Date.parse(entry!.addedAt) >= before - 1000);
+
+    rejectsWith("WITHDRAWAL_DESTINATION_COOLING_DOWN", () => withdrawals.createWithdrawal(PHONE, FRESH, 1));
+  });
+
+  it("keeps the original addedAt when an address is re-added", () => {
+    const first = withdrawals.getAllowlist(PHONE).find((e) => e.address === onchain.normalizeAddress(FRESH, "test"))!;
+    const again = withdrawals.addToAllowlist(PHONE, FRESH).find((e) => e.address === first.address)!;
+    assert.equal(again.addedAt, first.addedAt);
+  });
+
+  it("rejects destinations off the list and invalid addresses", () => {
+    rejectsWith("WITHDRAWAL_DESTINATION_NOT_ALLOWED", () => withdrawals.createWithdrawal(PHONE, "0x00000000000000000000000000000000000000cc", 1));
+    rejectsWith("WITHDRAWAL_INVALID_ADDRESS", () => withdrawals.createWithdrawal(PHONE, "0x1234", 1));
+    rejectsWith("WITHDRAWAL_INVALID_ADDRESS", () => withdrawals.addToAllowlist(PHONE, "not-an-address"));
+  });
+
+  it("is per user", () => {
+    rejectsWith("WITHDRAWAL_DESTINATION_NOT_ALLOWED", () => withdrawals.createWithdrawal("+5511999990009", TRUSTED, 1));
+  });
+});
+
+describe("withdrawal flow", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("sends the transfer once the code is confirmed", async () => {
+    const transfer = mock.method(onchain, "transferCollateral", async () => ({ txHash: "0xfeed" }));
+
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 12.5);
+    assert.equal(withdrawal.status, "pending");
+    assert.equal(withdrawal.amount, "12.500000");
+    assert.match(confirmationCode, /^\d{6}$/);
+    assert.equal("codeHash" in withdrawal, false);
+
+    const done = await withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode);
+    assert.equal(done.status, "completed");
+    assert.equal(done.txHash, "0xfeed");
+
+    assert.equal(transfer.mock.callCount(), 1);
+    const [phone, to, amount] = transfer.mock.calls[0]!.arguments;
+    assert.equal(phone, PHONE);
+    assert.equal(to, onchain.normalizeAddress(TRUSTED, "test"));
+    assert.equal(String(amount), "12500000");
+
+    await rejectsAsync("WITHDRAWAL_NOT_PENDING", withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode));
+  });
+
+  it("only lets the owner see or confirm a withdrawal", async () => {
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 1);
+    await rejectsAsync("WITHDRAWAL_NOT_FOUND", withdrawals.confirmWithdrawal("+5511999990009", withdrawal.id, confirmationCode));
+    withdrawals.cancelWithdrawal(PHONE, withdrawal.id);
+  });
+
+  it("cancels after too many wrong codes", async () => {
+    const transfer = mock.method(onchain, "transferCollateral", async () => ({ txHash: "0xfeed" }));
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 1);
+    const wrong = confirmationCode === "000000" ? "111111" : "000000";
+
+    for (let i = 0; i < 5; i++) {
+      await rejectsAsync("WITHDRAWAL_INVALID_CODE", withdrawals.confirmWithdrawal(PHONE, withdrawal.id, wrong));
+    }
+    await rejectsAsync("WITHDRAWAL_TOO_MANY_ATTEMPTS", withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode));
+    await rejectsAsync("WITHDRAWAL_NOT_PENDING", withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode));
+    assert.equal(transfer.mock.callCount(), 0);
+  });
+
+  it("marks a transfer the node refused as failed and frees the daily cap", async () => {
+    const refused = new TxError("TX_SEND_FAILED", "insufficient funds for gas * price + value", 502, { kind: "withdrawal" });
+    mock.method(onchain, "transferCollateral", async () => {
+      throw refused;
+    });
+
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 900);
+    rejectsWith("WITHDRAWAL_DAILY_CAP", () => withdrawals.createWithdrawal(PHONE, TRUSTED, 900));
+
+    await assert.rejects(withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode), (e: unknown) => e === refused);
+    assert.equal(statusOf(withdrawal.id), "failed");
+
+    const retry = withdrawals.createWithdrawal(PHONE, TRUSTED, 900);
+    withdrawals.cancelWithdrawal(PHONE, retry.withdrawal.id);
+  });
+
+  it("counts pending and completed withdrawals towards the daily cap", () => {
+    // Cap padrão de 1000 USDC; o primeiro teste do fluxo já completou 12.5
+    const pending = withdrawals.createWithdrawal(PHONE, TRUSTED, 900);
+    rejectsWith("WITHDRAWAL_DAILY_CAP", () => withdrawals.createWithdrawal(PHONE, TRUSTED, 88));
+    assert.doesNotThrow(() => withdrawals.cancelWithdrawal(PHONE, withdrawals.createWithdrawal(PHONE, TRUSTED, 87.5).withdrawal.id));
+
+    withdrawals.cancelWithdrawal(PHONE, pending.withdrawal.id);
+    const full = withdrawals.createWithdrawal(PHONE, TRUSTED, 987.5);
+    withdrawals.cancelWithdrawal(PHONE, full.withdrawal.id);
+  });
+});
+
+describe("withdrawal flow with a transfer that times out", () => {
+  afterEach(() => mock.restoreAll());
+
+  const timeout = new TxError("TX_TIMEOUT", "Transaction not confirmed yet; it is still tracked", 504, { id: "tx-1", hash: "0xslow", nonce: 3 });
+
+  it("stays sending, holding the daily cap, until the tx fails", async () => {
+    const outcome = deferred<TxResult>();
+    mock.method(onchain, "transferCollateral", async () => {
+      throw timeout;
+    });
+    const awaited = mock.method(txManager, "awaitTx", () => outcome.promise);
+
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 900);
+    const sending = await withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode);
+    assert.equal(sending.status, "sending");
+    assert.equal(sending.txHash, "0xslow");
+    assert.deepEqual(awaited.mock.calls[0]?.arguments, ["tx-1"]);
+
+    // O tx pode ainda ser minerado: o cap continua reservado
+    rejectsWith("WITHDRAWAL_DAILY_CAP", () => withdrawals.createWithdrawal(PHONE, TRUSTED, 100));
+
+    outcome.reject(new TxError("TX_DROPPED", "Transaction was dropped (nonce used by another tx)", 502, { id: "tx-1" }));
+    await flush();
+    assert.equal(statusOf(withdrawal.id), "failed");
+    withdrawals.cancelWithdrawal(PHONE, withdrawals.createWithdrawal(PHONE, TRUSTED, 900).withdrawal.id);
+  });
+
+  it("completes once the tx is mined", async () => {
+    const outcome = deferred<TxResult>();
+    mock.method(onchain, "transferCollateral", async () => {
+      throw timeout;
+    });
+    mock.method(txManager, "awaitTx", () => outcome.promise);
+
+    const { withdrawal, confirmationCode } = withdrawals.createWithdrawal(PHONE, TRUSTED, 1);
+    assert.equal((await withdrawals.confirmWithdrawal(PHONE, withdrawal.id, confirmationCode)).status, "sending");
+
+    outcome.resolve({ id: "tx-1", hash: "0xmined", blockNumber: 100, gasUsed: "50000", replaced: true });
+    await flush();
+    const [done] = withdrawals.listWithdrawals(PHONE).filter((w) => w.id === withdrawal.id);
+    assert.equal(done?.status, "completed");
+    assert.equal(done?.txHash, "0xmined");
+    assert.equal(done?.error, null);
+  });
+});
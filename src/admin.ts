@@ -0,0 +1,158 @@
+/**
+ * Operator view of the executor (admin API; routes use the admin credential, see auth.ts)
+ *
+ * - Master wallet: MATIC balance vs GAS_MASTER_MIN_BALANCE_MATIC
+ * - Fleet: every known derived wallet (users.json) with USDC / MATIC balances and
+ *   trading approvals, read on-chain with bounded concurrency (ADMIN_RPC_CONCURRENCY)
+ * - Summary: totals across all users
+ * - Freeze / unfreeze a user's trading (enforced by the risk engine on every order)
+ *
+ * Users are identified by phone hash (phones are never stored in clear) or by address.
+ */
+
+import { BigNumber, utils } from "ethers";
+import { listUserRecords, setUserFrozen, type UserRecord } from "./userRegistry";
+import { getWalletBalances, getApprovalsForAddress } from "./polymarketOnchain";
+import { getMasterWalletStatus, getGasLedger } from "./gasManager";
+import { listTransactions } from "./txManager";
+import { NotFoundError } from "./errors";
+
+const RPC_CONCURRENCY = Number(process.env.ADMIN_RPC_CONCURRENCY ?? "5");
+
+export type FleetUser = {
+  id: string; // phone hash
+  address: string | null; // null: usuário ainda não usou nenhuma rota que monta o signer
+  derivationVersion: number;
+  createdAt: string;
+  migratedAt: string | null;
+  frozen: { reason: string; at: string } | null;
+  usdc: string | null;
+  matic: string | null;
+  tradingEnabled: boolean | null;
+  negRiskTradingEnabled: boolean | null;
+  error: string | null;
+};
+
+async function mapLimited<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]!);
+    }
+  });
+  await Promise.all(workers);
+  return out;
+}
+
+function baseView(id: string, r: UserRecord): FleetUser {
+  return {
+    id,
+    address: r.address ?? null,
+    derivationVersion: r.version,
+    createdAt: r.createdAt,
+    migratedAt: r.migratedAt,
+    frozen: r.frozen ?? null,
+    usdc: null,
+    matic: null,
+    tradingEnabled: null,
+    negRiskTradingEnabled: null,
+    error: null,
+  };
+}
+
+// Falha de RPC de um usuário não derruba a listagem inteira
+async function withBalances(user: FleetUser): Promise<FleetUser> {
+  if (!user.address) return user;
+
+  try {
+    const [balances, approvals] = await Promise.all([getWalletBalances(user.address), getApprovalsForAddress(user.address)]);
+    return {
+      ...user,
+      usdc: utils.formatUnits(balances.usdc, 6),
+      matic: utils.formatEther(balances.matic),
+      tradingEnabled: approvals.tradingEnabled,
+      negRiskTradingEnabled: approvals.negRiskTradingEnabled,
+    };
+  } catch (error: any) {
+    return { ...user, error: String(error?.message ?? error) };
+  }
+}
+
+function findUser(idOrAddress: string): [string, UserRecord] {
+  const isAddress = utils.isAddress(idOrAddress);
+  const entry = listUserRecords().find(([id, r]) =>
+    isAddress ? r.address?.toLowerCase() === idOrAddress.toLowerCase() : id === idOrAddress,
+  );
+  if (!entry) throw new NotFoundError("USER_NOT_FOUND", `User ${idOrAddress} not found`);
+  return entry;
+}
+
+// ============================================================================
+// VIEWS
+// ============================================================================
+
+export async function getMasterOverview() {
+  const status = await getMasterWalletStatus();
+  const pending = listTransactions({ status: "pending", address: status.address, limit: 500 });
+  return { ...status, pendingTxs: pending.transactions.length };
+}
+
+export async function listFleetUsers(filters: { frozen?: boolean; limit: number; offset: number }) {
+  const all = listUserRecords()
+    .map(([id, r]) => baseView(id, r))
+    .filter((u) => filters.frozen === undefined || Boolean(u.frozen) === filters.frozen)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const page = all.slice(filters.offset, filters.offset + filters.limit);
+  const users = await mapLimited(page, RPC_CONCURRENCY, withBalances);
+  const nextOffset = filters.offset + page.length < all.length ? filters.offset + page.length : null;
+
+  return { total: all.length, users, nextOffset };
+}
+
+export async function getFleetSummary() {
+  const all = listUserRecords().map(([id, r]) => baseView(id, r));
+  const [users, master] = await Promise.all([mapLimited(all, RPC_CONCURRENCY, withBalances), getMasterWalletStatus()]);
+
+  const read = users.filter((u) => u.usdc !== null);
+  const sum = (values: BigNumber[]) => values.reduce((a, b) => a.add(b), BigNumber.from(0));
+  const gas = getGasLedger({ limit: 0 });
+
+  return {
+    users: {
+      total: users.length,
+      withWallet: users.filter((u) => u.address).length,
+      frozen: users.filter((u) => u.frozen).length,
+      tradingEnabled: users.filter((u) => u.tradingEnabled).length,
+      negRiskTradingEnabled: users.filter((u) => u.negRiskTradingEnabled).length,
+      unreadable: users.filter((u) => u.error).length,
+    },
+    balances: {
+      usdc: utils.formatUnits(sum(read.map((u) => utils.parseUnits(u.usdc!, 6))), 6),
+      matic: utils.formatEther(sum(read.map((u) => utils.parseEther(u.matic!)))),
+    },
+    master,
+    gasSponsored: { topUps: gas.total, matic: gas.totalMatic },
+    transactions: listTransactions({ limit: 0 }).counts,
+  };
+}
+
+// ============================================================================
+// FREEZE
+// ============================================================================
+
+export function freezeUser(idOrAddress: string, reason: string) {
+  const [id] = findUser(idOrAddress);
+  setUserFrozen(id, { reason });
+  console.log(`[Admin] User ${id.slice(0, 12)} frozen: ${reason}`);
+  return baseView(...findUser(id));
+}
+
+export function unfreezeUser(idOrAddress: string) {
+  const [id] = findUser(idOrAddress);
+  setUserFrozen(id, null);
+  console.log(`[Admin] User ${id.slice(0, 12)} unfrozen`);
+  return baseView(...findUser(id));
+}
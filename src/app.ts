@@ -0,0 +1,850 @@
+import express from "express";
+import cors from "cors";
+import { z } from "zod";
+
+import { getL2Client, getPolymarketAddress, AssetType } from "./polymarketClob";
+import { subscribeBook, subscribeUser, type BookEvent, type UserEvent } from "./marketStream";
+import { gammaTopMarkets, gammaSearchMarkets, gammaGetMarket, gammaGetEvent, type GammaError } from "./polymarketGamma";
+import { getOnchainApprovals, enableTrading, isConditionResolved } from "./polymarketOnchain";
+import { withIdempotency } from "./idempotency";
+import { marketOrderSchema, executeMarketOrder } from "./marketOrders";
+import { limitOrderSchema, executeLimitOrder } from "./limitOrders";
+import { executeBatch } from "./batchOrders";
+import {
+  createTrigger,
+  createOcoTriggers,
+  listTriggers,
+  getTrigger,
+  updateTrigger,
+  cancelTrigger,
+} from "./triggers";
+import {
+  startTwap,
+  startIceberg,
+  getExecution,
+  listExecutions,
+  pauseExecution,
+  resumeExecution,
+  cancelExecution,
+} from "./executions";
+import { quoteFromBook } from "./orderQuote";
+import { markOrdersCancelled, getOrderHistory, isFailedResponse } from "./tradeLedger";
+import { getUserPositions, redeemAllResolved, redeemCondition } from "./positions";
+import { convertNoPositions } from "./negRisk";
+import {
+  getAllowlist,
+  addToAllowlist,
+  removeFromAllowlist,
+  createWithdrawal,
+  confirmWithdrawal,
+  cancelWithdrawal,
+  listWithdrawals,
+} from "./withdrawals";
+import { authMiddleware, captureRawBody } from "./auth";
+import { normalizePhone } from "./phone";
+import { recordPhoneVariant, ANONYMOUS_PHONE } from "./userRegistry";
+import { planWalletMigration, executeWalletMigration } from "./walletMigration";
+import { getGasLedger } from "./gasManager";
+import { listTransactions } from "./txManager";
+import { getMasterOverview, listFleetUsers, getFleetSummary, freezeUser, unfreezeUser } from "./admin";
+import { listDeadLetters, replayDeadLetters } from "./webhooks";
+import { listDeposits } from "./deposits";
+import {
+  ExecutorError,
+  ValidationError,
+  NotFoundError,
+  requestIdMiddleware,
+  notFoundMiddleware,
+  errorMiddleware,
+} from "./errors";
+
+export const app = express();
+app.use(requestIdMiddleware);
+app.use(cors());
+app.use(express.json({ verify: captureRawBody }));
+
+// Auth: requests assinados por API client (HMAC) ou token legado
+app.use(authMiddleware);
+
+// Telefone sempre em E.164: a derivação da wallet e os registros por usuário usam a forma canônica
+function requireUserPhone(req: express.Request): string {
+  const userPhone = req.header("x-user-phone");
+  if (!userPhone) {
+    throw new ValidationError("MISSING_USER_PHONE_HEADER", "x-user-phone header is required");
+  }
+  const canonical = normalizePhone(userPhone);
+  recordPhoneVariant(userPhone, canonical);
+  return canonical;
+}
+
+// Rotas públicas: o header é opcional
+function optionalUserPhone(req: express.Request): string {
+  return req.header("x-user-phone") ? requireUserPhone(req) : ANONYMOUS_PHONE;
+}
+
+app.get("/health", (_req, res) => {
+  res.json({ ok: true, service: "polymarket-executor", timestamp: new Date().toISOString() });
+});
+
+// Diagnóstico: do ponto de vista do executor, estou bloqueado?
+app.get("/polymarket/geoblock", async (_req, res) => {
+  const r = await fetch("https://polymarket.com/api/geoblock", { method: "GET" });
+  const text = await r.text();
+
+  let data: any = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = { raw: text.slice(0, 500) };
+  }
+
+  res.status(r.status).json({ ok: r.ok, status: r.status, data });
+});
+
+app.get("/polymarket/address", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const address = await getPolymarketAddress(userPhone);
+  res.json({ ok: true, address });
+});
+
+app.get("/polymarket/balance", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const client = await getL2Client(userPhone);
+  const address = await getPolymarketAddress(userPhone);
+  
+  const collateral = await client.getBalanceAllowance({
+    asset_type: AssetType.COLLATERAL,
+  });
+
+  // Add address to response for fund isolation validation
+  res.json({ ok: true, data: { ...collateral, address } });
+});
+
+// Outcome tokens (CTF) que o usuário tem, com valor a mercado e PnL não realizado
+app.get("/polymarket/positions", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({
+      // CSV de tokenIds; sem isso usa os tokens negociados pelo usuário (ledger)
+      tokenIds: z
+        .string()
+        .transform((csv) => Array.from(new Set(csv.split(",").map((t) => t.trim()).filter(Boolean))))
+        .pipe(z.array(z.string().regex(/^\d+$/, "tokenIds must be decimal token ids")).min(1).max(100))
+        .optional(),
+    })
+    .parse(req.query);
+
+  const data = await getUserPositions(userPhone, query.tokenIds);
+  res.json({ ok: true, data });
+});
+
+// Resgata posições vencedoras de mercados resolvidos (uma condition ou sweep de todas)
+app.post("/polymarket/redeem", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      conditionId: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+      sweep: z.boolean().optional(),
+    })
+    .refine((b) => Boolean(b.conditionId) !== Boolean(b.sweep), {
+      message: "Provide either conditionId or sweep: true",
+    })
+    .parse(req.body ?? {});
+
+  if (body.sweep) {
+    console.log(`[Executor] Redeem sweep for user ${userPhone.slice(-4)}`);
+    const data = await redeemAllResolved(userPhone);
+    return res.json({ ok: true, data });
+  }
+
+  const conditionId = body.conditionId!;
+  if (!(await isConditionResolved(conditionId))) {
+    throw new ExecutorError("CONDITION_NOT_RESOLVED", `Condition ${conditionId} is not resolved yet`, 409);
+  }
+
+  console.log(`[Executor] Redeem ${conditionId} for user ${userPhone.slice(-4)}`);
+  const data = await redeemCondition(userPhone, conditionId);
+  res.json({ ok: true, data });
+});
+
+// Neg-risk: converte NO de várias questions do mesmo market em USDC + YES das outras (NegRiskAdapter)
+app.post("/polymarket/positions/convert", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      tokenIds: z.array(z.string().min(1)).min(1), // tokens NO
+      amount: z.number().positive(), // shares de cada token
+    })
+    .parse(req.body ?? {});
+
+  console.log(`[Executor] Neg-risk convert ${body.amount} NO x${body.tokenIds.length} for user ${userPhone.slice(-4)}`);
+  const data = await convertNoPositions(userPhone, body);
+  res.json({ ok: true, data });
+});
+
+// Saques de USDC: allowlist de destinos + fluxo em duas etapas (create → confirm com código)
+app.get("/polymarket/withdraw/allowlist", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: getAllowlist(userPhone) });
+});
+
+app.post("/polymarket/withdraw/allowlist", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z.object({ address: z.string().min(1) }).parse(req.body);
+
+  res.json({ ok: true, data: addToAllowlist(userPhone, body.address) });
+});
+
+app.delete("/polymarket/withdraw/allowlist/:address", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: removeFromAllowlist(userPhone, req.params.address) });
+});
+
+app.post("/polymarket/withdraw", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      to: z.string().min(1),
+      amount: z.number().positive(), // USDC
+    })
+    .parse(req.body);
+
+  res.json({ ok: true, data: createWithdrawal(userPhone, body.to, body.amount) });
+});
+
+app.post("/polymarket/withdraw/:id/confirm", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z.object({ code: z.string().regex(/^\d{6}$/) }).parse(req.body);
+
+  const data = await confirmWithdrawal(userPhone, req.params.id, body.code);
+  res.json({ ok: true, data });
+});
+
+app.delete("/polymarket/withdraw/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: cancelWithdrawal(userPhone, req.params.id) });
+});
+
+app.get("/polymarket/withdrawals", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: listWithdrawals(userPhone) });
+});
+
+// Top-ups de gas (MATIC) que o master wallet mandou pra wallet do usuário
+app.get("/polymarket/gas/ledger", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z.object({ limit: z.coerce.number().int().min(1).max(500).default(100) }).parse(req.query);
+
+  res.json({ ok: true, data: getGasLedger({ phone: userPhone, limit: query.limit }) });
+});
+
+// ============================================================================
+// ADMIN (x-admin-token, ver auth.ts)
+// ============================================================================
+
+app.get("/admin/master", async (_req, res) => {
+  res.json({ ok: true, data: await getMasterOverview() });
+});
+
+app.get("/admin/users", async (req, res) => {
+  const query = z
+    .object({
+      frozen: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+    })
+    .parse(req.query);
+
+  res.json({
+    ok: true,
+    data: await listFleetUsers({ ...(query.frozen !== undefined ? { frozen: query.frozen } : {}), limit: query.limit, offset: query.offset }),
+  });
+});
+
+app.get("/admin/summary", async (_req, res) => {
+  res.json({ ok: true, data: await getFleetSummary() });
+});
+
+// :id = phone hash (GET /admin/users) ou endereço da carteira
+app.post("/admin/users/:id/freeze", async (req, res) => {
+  const body = z.object({ reason: z.string().trim().min(1).max(500) }).parse(req.body ?? {});
+  res.json({ ok: true, data: freezeUser(req.params.id, body.reason) });
+});
+
+app.post("/admin/users/:id/unfreeze", async (req, res) => {
+  res.json({ ok: true, data: unfreezeUser(req.params.id) });
+});
+
+// Webhooks que esgotaram as tentativas
+app.get("/admin/webhooks/dead-letters", async (req, res) => {
+  const query = z.object({ limit: z.coerce.number().int().min(1).max(500).default(100) }).parse(req.query);
+  res.json({ ok: true, data: listDeadLetters(query.limit) });
+});
+
+// Reenfileira dead letters: todas, ou só `ids`
+app.post("/admin/webhooks/dead-letters/replay", async (req, res) => {
+  const body = z.object({ ids: z.array(z.string().min(1)).min(1).max(500).optional() }).parse(req.body ?? {});
+  res.json({ ok: true, data: replayDeadLetters(body.ids) });
+});
+
+// Transações on-chain do executor (todas as carteiras): pendentes, substituídas, falhas
+app.get("/admin/transactions", async (req, res) => {
+  const query = z
+    .object({
+      status: z.enum(["pending", "confirmed", "reverted", "cancelled", "dropped"]).optional(),
+      address: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+      limit: z.coerce.number().int().min(1).max(500).default(100),
+    })
+    .parse(req.query);
+
+  res.json({
+    ok: true,
+    data: listTransactions({
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.address ? { address: query.address } : {}),
+      limit: query.limit,
+    }),
+  });
+});
+
+app.get("/polymarket/deposits", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({
+      status: z.enum(["pending", "confirmed", "reorged"]).optional(),
+      limit: z.coerce.number().int().min(1).max(500).default(100),
+    })
+    .parse(req.query);
+
+  res.json({ ok: true, data: listDeposits(userPhone, { status: query.status, limit: query.limit }) });
+});
+
+// Migração de wallet: move fundos de derivações antigas / formatos de telefone legados
+// para o endereço atual. dryRun (default) só reporta.
+app.post("/polymarket/wallet/migrate", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      dryRun: z.boolean().default(true),
+      variants: z.array(z.string().min(1)).max(20).optional(),
+      tokenIds: z.array(z.string().min(1)).max(100).optional(),
+    })
+    .parse(req.body ?? {});
+
+  const opts = {
+    ...(body.variants ? { variants: body.variants } : {}),
+    ...(body.tokenIds ? { tokenIds: body.tokenIds } : {}),
+  };
+
+  const data = body.dryRun
+    ? await planWalletMigration(userPhone, opts)
+    : await executeWalletMigration(userPhone, opts);
+
+  res.json({ ok: true, dryRun: body.dryRun, data });
+});
+
+// Approvals on-chain (USDC allowance + CTF setApprovalForAll) da wallet derivada do usuário
+app.get("/polymarket/approvals", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const data = await getOnchainApprovals(userPhone);
+  res.json({ ok: true, data });
+});
+
+app.post("/polymarket/approvals/enable", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  // Só os contratos da Polymarket: spenders arbitrários vindos do body poderiam drenar a wallet
+  console.log(`[Executor] Enable trading approvals for user ${userPhone.slice(-4)}`);
+
+  const data = await enableTrading(userPhone);
+
+  // CLOB guarda allowance em cache; força refresh depois das approvals
+  const client = await getL2Client(userPhone);
+  await client.updateBalanceAllowance({ asset_type: AssetType.COLLATERAL });
+
+  res.json({ ok: true, data });
+});
+
+app.get("/polymarket/orderbook/:tokenId", async (req, res) => {
+  // Orderbook é público, não precisa de user phone
+  // Mas aceitamos o header se vier (para compatibilidade)
+  const userPhone = optionalUserPhone(req);
+  
+  const client = await getL2Client(userPhone);
+  const book = await client.getOrderBook(req.params.tokenId);
+  res.json({ ok: true, data: book });
+});
+
+// Streaming (SSE): snapshot do book + updates incrementais por nível de preço
+app.get("/polymarket/stream/books", async (req, res) => {
+  const query = z.object({ tokenIds: z.string().min(1) }).parse(req.query);
+  const tokenIds = Array.from(new Set(query.tokenIds.split(",").map((t) => t.trim()).filter(Boolean))).slice(0, 50);
+
+  res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  res.flushHeaders();
+
+  const send = (event: BookEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  const unsubscribes = tokenIds.map((tokenId) => subscribeBook(tokenId, send));
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 15_000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  });
+});
+
+// Streaming (SSE): status de ordens e fills do próprio usuário
+app.get("/polymarket/stream/user", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const address = await getPolymarketAddress(userPhone);
+
+  res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  res.flushHeaders();
+
+  const send = (event: UserEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  const unsubscribe = subscribeUser(userPhone, address, send);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 15_000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Preview: simula o fill de uma market order contra o book atual (não envia nada)
+app.post("/polymarket/orders/quote", async (req, res) => {
+  const userPhone = optionalUserPhone(req); // book é público
+
+  const body = z
+    .object({
+      tokenId: z.string().min(1),
+      side: z.enum(["BUY", "SELL"]),
+      amount: z.number().positive(),
+    })
+    .parse(req.body);
+
+  const client = await getL2Client(userPhone);
+  const book = await client.getOrderBook(body.tokenId);
+
+  res.json({ ok: true, data: quoteFromBook(book, body.side, body.amount) });
+});
+
+app.post("/polymarket/orders/market", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = marketOrderSchema.parse(req.body);
+
+  console.log(`[Executor] Market order for user ${userPhone.slice(-4)}: ${body.side} ${body.amount} of ${body.tokenId}`);
+
+  const idempotencyKey = req.header("idempotency-key")?.trim() || undefined;
+
+  const { result, replayed } = await withIdempotency(
+    idempotencyKey,
+    userPhone,
+    { phone: userPhone, tokenId: body.tokenId, side: body.side, amount: body.amount },
+    () => executeMarketOrder(userPhone, body),
+    { isFailure: isFailedResponse },
+  );
+
+  if (replayed) {
+    console.log(`[Executor] Idempotent replay for user ${userPhone.slice(-4)} (key ${idempotencyKey})`);
+    res.setHeader("Idempotent-Replayed", "true");
+  }
+
+  res.json({ ok: true, data: result });
+});
+
+// Cesta de ordens a mercado (várias pernas), com política para falhas parciais
+app.post("/polymarket/orders/batch", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      legs: z.array(marketOrderSchema).min(1).max(20),
+      policy: z.enum(["best_effort", "stop_on_failure", "unwind"]).default("stop_on_failure"),
+    })
+    .parse(req.body);
+
+  console.log(`[Executor] Batch of ${body.legs.length} legs for user ${userPhone.slice(-4)} (policy ${body.policy})`);
+
+  const idempotencyKey = req.header("idempotency-key")?.trim() || undefined;
+
+  const { result, replayed } = await withIdempotency(
+    idempotencyKey,
+    userPhone,
+    { phone: userPhone, batch: body },
+    () => executeBatch(userPhone, body.legs, body.policy),
+  );
+
+  if (replayed) {
+    res.setHeader("Idempotent-Replayed", "true");
+  }
+
+  res.json({ ok: true, data: result });
+});
+
+// Limit orders (resting): GTC ou GTD com expiration
+app.post("/polymarket/orders/limit", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = limitOrderSchema.parse(req.body);
+
+  console.log(
+    `[Executor] Limit order (${body.orderType}) for user ${userPhone.slice(-4)}: ${body.side} ${body.size} @ ${body.price} of ${body.tokenId}`,
+  );
+
+  const result = await executeLimitOrder(userPhone, body);
+
+  res.json({ ok: true, data: result });
+});
+
+app.get("/polymarket/orders/open", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({
+      market: z.string().min(1).optional(),
+      tokenId: z.string().min(1).optional(),
+    })
+    .parse(req.query);
+
+  const client = await getL2Client(userPhone);
+  const orders = await client.getOpenOrders({
+    ...(query.market ? { market: query.market } : {}),
+    ...(query.tokenId ? { asset_id: query.tokenId } : {}),
+  });
+
+  res.json({ ok: true, data: orders });
+});
+
+// Audit trail local (ledger) de todas as ordens enviadas pelo usuário
+app.get("/polymarket/orders/history", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({
+      tokenId: z.string().min(1).optional(),
+      side: z.enum(["BUY", "SELL"]).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+    })
+    .parse(req.query);
+
+  res.json({ ok: true, data: getOrderHistory(userPhone, query) });
+});
+
+app.get("/polymarket/orders/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const client = await getL2Client(userPhone);
+  const order = await client.getOrder(req.params.id);
+
+  if (!order) {
+    throw new NotFoundError("ORDER_NOT_FOUND", `Order ${req.params.id} not found`);
+  }
+
+  res.json({ ok: true, data: order });
+});
+
+app.delete("/polymarket/orders/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  console.log(`[Executor] Cancel order ${req.params.id} for user ${userPhone.slice(-4)}`);
+
+  const client = await getL2Client(userPhone);
+  const result = await client.cancelOrder({ orderID: req.params.id });
+  markOrdersCancelled(Array.isArray(result?.canceled) ? result.canceled : []);
+
+  res.json({ ok: true, data: result });
+});
+
+// Cancel all: sem filtro cancela tudo do usuário; com market/tokenId cancela só daquele mercado
+app.delete("/polymarket/orders", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({
+      market: z.string().min(1).optional(),
+      tokenId: z.string().min(1).optional(),
+    })
+    .parse(req.query);
+
+  console.log(
+    `[Executor] Cancel all orders for user ${userPhone.slice(-4)}${query.market || query.tokenId ? ` (market=${query.market ?? "-"}, tokenId=${query.tokenId ?? "-"})` : ""}`,
+  );
+
+  const client = await getL2Client(userPhone);
+
+  const result =
+    query.market || query.tokenId
+      ? await client.cancelMarketOrders({
+          ...(query.market ? { market: query.market } : {}),
+          ...(query.tokenId ? { asset_id: query.tokenId } : {}),
+        })
+      : await client.cancelAll();
+  markOrdersCancelled(Array.isArray(result?.canceled) ? result.canceled : []);
+
+  res.json({ ok: true, data: result });
+});
+
+// Ordens condicionais (stop-loss, take-profit, gatilho de preço, OCO) executadas pelo próprio executor
+const triggerOrderFields = {
+  tokenId: z.string().min(1),
+  side: z.enum(["BUY", "SELL"]).default("SELL"),
+  amount: z.number().positive(),
+  maxPrice: z.number().gt(0).lt(1).optional(),
+  minPrice: z.number().gt(0).lt(1).optional(),
+  maxSlippageBps: z.number().nonnegative().optional(),
+  priceSource: z.enum(["bid", "ask", "mid"]).optional(),
+  // Unix timestamp (seconds)
+  expiresAt: z.number().int().positive().optional(),
+};
+
+function triggerOrder(b: { tokenId: string; side: "BUY" | "SELL"; amount: number; maxPrice?: number | undefined; minPrice?: number | undefined; maxSlippageBps?: number | undefined }) {
+  return marketOrderSchema.parse({
+    tokenId: b.tokenId,
+    side: b.side,
+    amount: b.amount,
+    ...(b.maxPrice !== undefined ? { maxPrice: b.maxPrice } : {}),
+    ...(b.minPrice !== undefined ? { minPrice: b.minPrice } : {}),
+    ...(b.maxSlippageBps !== undefined ? { maxSlippageBps: b.maxSlippageBps } : {}),
+  });
+}
+
+app.post("/polymarket/triggers", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      ...triggerOrderFields,
+      type: z.enum(["stop_loss", "take_profit", "price"]),
+      triggerPrice: z.number().gt(0).lt(1),
+      direction: z.enum(["above", "below"]).optional(),
+    })
+    .refine((b) => (b.type === "price") === (b.direction !== undefined), {
+      message: "direction is required for price triggers (and only for them)",
+      path: ["direction"],
+    })
+    .refine((b) => b.expiresAt === undefined || b.expiresAt > Math.floor(Date.now() / 1000), {
+      message: "expiresAt must be in the future",
+      path: ["expiresAt"],
+    })
+    .parse(req.body);
+
+  const data = createTrigger(userPhone, {
+    type: body.type,
+    tokenId: body.tokenId,
+    triggerPrice: body.triggerPrice,
+    direction: body.direction,
+    priceSource: body.priceSource,
+    order: triggerOrder(body),
+    expiresAt: body.expiresAt,
+  });
+  res.status(201).json({ ok: true, data });
+});
+
+app.post("/polymarket/triggers/oco", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      ...triggerOrderFields,
+      takeProfitPrice: z.number().gt(0).lt(1),
+      stopLossPrice: z.number().gt(0).lt(1),
+    })
+    .refine((b) => b.stopLossPrice < b.takeProfitPrice, {
+      message: "stopLossPrice must be below takeProfitPrice",
+      path: ["stopLossPrice"],
+    })
+    .refine((b) => b.expiresAt === undefined || b.expiresAt > Math.floor(Date.now() / 1000), {
+      message: "expiresAt must be in the future",
+      path: ["expiresAt"],
+    })
+    .parse(req.body);
+
+  const data = createOcoTriggers(userPhone, {
+    tokenId: body.tokenId,
+    takeProfitPrice: body.takeProfitPrice,
+    stopLossPrice: body.stopLossPrice,
+    priceSource: body.priceSource,
+    order: triggerOrder(body),
+    expiresAt: body.expiresAt,
+  });
+  res.status(201).json({ ok: true, data });
+});
+
+app.get("/polymarket/triggers", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({ status: z.enum(["active", "firing", "fired", "failed", "cancelled", "expired"]).optional() })
+    .parse(req.query);
+
+  res.json({ ok: true, data: listTriggers(userPhone, query.status) });
+});
+
+app.get("/polymarket/triggers/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: getTrigger(userPhone, req.params.id) });
+});
+
+app.patch("/polymarket/triggers/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .object({
+      triggerPrice: z.number().gt(0).lt(1).optional(),
+      amount: z.number().positive().optional(),
+      expiresAt: z.number().int().positive().nullable().optional(),
+    })
+    .parse(req.body);
+
+  res.json({ ok: true, data: updateTrigger(userPhone, req.params.id, body) });
+});
+
+app.delete("/polymarket/triggers/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: cancelTrigger(userPhone, req.params.id) });
+});
+
+// Execução algorítmica de ordens grandes: TWAP (fatias a mercado) e iceberg (limit visível reabastecida)
+app.post("/polymarket/executions", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const body = z
+    .discriminatedUnion("algo", [
+      z.object({
+        algo: z.literal("twap"),
+        tokenId: z.string().min(1),
+        side: z.enum(["BUY", "SELL"]),
+        amount: z.number().positive(), // BUY: USDC; SELL: shares (igual ordem a mercado)
+        slices: z.number().int().min(2).max(200),
+        durationSeconds: z.number().int().min(1).max(7 * 24 * 3600),
+        priceLimit: z.number().gt(0).lt(1).optional(), // BUY: preço máximo; SELL: mínimo
+        maxSlippageBps: z.number().nonnegative().optional(),
+      }),
+      z.object({
+        algo: z.literal("iceberg"),
+        tokenId: z.string().min(1),
+        side: z.enum(["BUY", "SELL"]),
+        size: z.number().positive(), // shares
+        price: z.number().gt(0).lt(1),
+        visibleSize: z.number().positive(),
+      }),
+    ])
+    .refine((b) => b.algo !== "twap" || b.durationSeconds >= b.slices, {
+      message: "durationSeconds must allow at least 1 second between slices",
+      path: ["durationSeconds"],
+    })
+    .refine((b) => b.algo !== "iceberg" || b.visibleSize <= b.size, {
+      message: "visibleSize cannot exceed size",
+      path: ["visibleSize"],
+    })
+    .parse(req.body);
+
+  const data = body.algo === "twap" ? startTwap(userPhone, body) : startIceberg(userPhone, body);
+  res.status(201).json({ ok: true, data });
+});
+
+app.get("/polymarket/executions", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  const query = z
+    .object({ status: z.enum(["running", "paused", "completed", "cancelled", "failed"]).optional() })
+    .parse(req.query);
+
+  res.json({ ok: true, data: listExecutions(userPhone, query.status) });
+});
+
+app.get("/polymarket/executions/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: getExecution(userPhone, req.params.id) });
+});
+
+app.post("/polymarket/executions/:id/pause", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: await pauseExecution(userPhone, req.params.id) });
+});
+
+app.post("/polymarket/executions/:id/resume", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: await resumeExecution(userPhone, req.params.id) });
+});
+
+app.delete("/polymarket/executions/:id", async (req, res) => {
+  const userPhone = requireUserPhone(req);
+
+  res.json({ ok: true, data: await cancelExecution(userPhone, req.params.id) });
+});
+
+app.get("/polymarket/markets/top", async (req, res) => {
+  // Market discovery é público, não precisa de user phone
+  const limit = Number(req.query.limit ?? "10");
+  const data = await gammaTopMarkets(Number.isFinite(limit) ? limit : 10);
+  res.json({ ok: true, data });
+});
+
+app.get("/polymarket/markets", async (req, res) => {
+  const query = z
+    .object({
+      q: z.string().min(1).optional(),
+      tag: z.string().min(1).optional(),
+      category: z.string().min(1).optional(),
+      endDateMin: z.coerce.date().optional(),
+      endDateMax: z.coerce.date().optional(),
+      minLiquidity: z.coerce.number().nonnegative().optional(),
+      minVolume: z.coerce.number().nonnegative().optional(),
+      sort: z.enum(["volume", "liquidity", "endDate"]).optional(),
+      ascending: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+      closed: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      offset: z.coerce.number().int().min(0).default(0),
+    })
+    .parse(req.query);
+
+  const data = await gammaSearchMarkets(query);
+  res.json({ ok: true, data });
+});
+
+app.get("/polymarket/markets/:idOrSlug", async (req, res) => {
+  const data = await gammaGetMarket(req.params.idOrSlug).catch((error: GammaError) => {
+    if (error.status === 404) throw new NotFoundError("MARKET_NOT_FOUND", `Market ${req.params.idOrSlug} not found`);
+    throw error;
+  });
+  res.json({ ok: true, data });
+});
+
+app.get("/polymarket/events/:idOrSlug", async (req, res) => {
+  const data = await gammaGetEvent(req.params.idOrSlug).catch((error: GammaError) => {
+    if (error.status === 404) throw new NotFoundError("EVENT_NOT_FOUND", `Event ${req.params.idOrSlug} not found`);
+    throw error;
+  });
+  res.json({ ok: true, data });
+});
+
+app.use(notFoundMiddleware);
+app.use(errorMiddleware);
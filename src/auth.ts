@@ -0,0 +1,177 @@
+/**
+ * Request authentication
+ *
+ * Signed mode (preferred): each API client has its own secret and scopes and signs
+ * every request with HMAC-SHA256 over:
+ *
+ *   METHOD \n PATH(+query) \n sha256(body) \n x-user-phone \n timestamp \n nonce
+ *
+ * Headers: x-executor-client, x-executor-timestamp (unix seconds), x-executor-nonce,
+ * x-executor-signature (hex). Stale timestamps and reused nonces are rejected.
+ *
+ * Legacy mode: the shared x-executor-token (full access). Turn off with
+ * AUTH_LEGACY_TOKEN_ENABLED=false once every caller signs.
+ *
+ * Admin routes (/admin/*) only accept the operator credential, x-admin-token:
+ * EXECUTOR_ADMIN_TOKEN. Executor clients and the legacy token can't reach them.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction } from "express";
+import { AuthError, ExecutorError } from "./errors";
+
+export type Scope = "markets:read" | "account:read" | "trading" | "withdrawals" | "*";
+
+type ApiClient = { id: string; secret: string; scopes: Scope[] };
+
+const LEGACY_TOKEN = (process.env.EXECUTOR_API_TOKEN || "").trim();
+const LEGACY_ENABLED = (process.env.AUTH_LEGACY_TOKEN_ENABLED ?? "true").trim() !== "false";
+const MAX_SKEW_SECONDS = Number(process.env.AUTH_MAX_SKEW_SECONDS ?? "300");
+const ADMIN_TOKEN = (process.env.EXECUTOR_ADMIN_TOKEN || "").trim();
+
+/**
+ * Clients: EXECUTOR_API_CLIENTS (JSON) ou EXECUTOR_API_CLIENTS_FILE
+ * [{ "id": "core", "secret": "...", "scopes": ["markets:read", "account:read", "trading"] }]
+ */
+function loadClients(): Map<string, ApiClient> {
+  const file = (process.env.EXECUTOR_API_CLIENTS_FILE || "").trim();
+  const raw = file ? fs.readFileSync(file, "utf8") : (process.env.EXECUTOR_API_CLIENTS || "").trim();
+  if (!raw) return new Map();
+
+  const parsed = JSON.parse(raw) as ApiClient[];
+  const clients = new Map<string, ApiClient>();
+  for (const c of parsed) {
+    if (!c.id || !c.secret || !Array.isArray(c.scopes)) throw new Error(`Invalid API client config: ${c.id ?? "?"}`);
+    clients.set(c.id, c);
+  }
+  return clients;
+}
+
+const clients = loadClients();
+
+// Escopo exigido por rota (primeira regra que casar). Sem regra → só "*".
+const SCOPE_RULES: { method: string | "*"; pattern: RegExp; scope: Scope }[] = [
+  { method: "GET", pattern: /^\/polymarket\/(geoblock|orderbook\/|markets|events\/|stream\/books)/, scope: "markets:read" },
+  { method: "POST", pattern: /^\/polymarket\/orders\/quote$/, scope: "markets:read" },
+  { method: "*", pattern: /^\/polymarket\/withdraw/, scope: "withdrawals" },
+  { method: "GET", pattern: /^\/polymarket\/(address|balance|positions|approvals|gas|deposits|orders|triggers|executions|stream\/user)/, scope: "account:read" },
+  { method: "*", pattern: /^\/polymarket\/(orders|triggers|executions|approvals\/enable|redeem|positions\/convert)/, scope: "trading" },
+];
+
+export function requiredScope(method: string, path: string): Scope {
+  const rule = SCOPE_RULES.find((r) => (r.method === "*" || r.method === method) && r.pattern.test(path));
+  return rule?.scope ?? "*";
+}
+
+// ============================================================================
+// RAW BODY + NONCES
+// ============================================================================
+
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+/** express.json({ verify }) hook: keeps the exact bytes that were signed */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  rawBodies.set(req, buf);
+}
+
+// nonce → expiração (ms). Janela = MAX_SKEW, depois disso o timestamp já barra o replay.
+const seenNonces = new Map<string, number>();
+
+function rememberNonce(key: string): boolean {
+  const now = Date.now();
+  if (seenNonces.size > 10_000) {
+    for (const [k, exp] of seenNonces) if (exp < now) seenNonces.delete(k);
+  }
+
+  const exp = seenNonces.get(key);
+  if (exp !== undefined && exp >= now) return false;
+
+  seenNonces.set(key, now + MAX_SKEW_SECONDS * 2 * 1000);
+  return true;
+}
+
+export function signatureBase(method: string, path: string, body: Buffer | undefined, phone: string, timestamp: string, nonce: string) {
+  const bodyHash = crypto.createHash("sha256").update(body ?? Buffer.alloc(0)).digest("hex");
+  return [method.toUpperCase(), path, bodyHash, phone, timestamp, nonce].join("\n");
+}
+
+export function sign(secret: string, base: string): string {
+  return crypto.createHmac("sha256", secret).update(base).digest("hex");
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+export type AuthContext = { clientId: string; scopes: Scope[]; mode: "signed" | "legacy" | "admin" };
+
+function authenticateAdmin(req: Request): AuthContext {
+  if (!ADMIN_TOKEN) throw new ExecutorError("EXECUTOR_ADMIN_TOKEN_MISSING", "EXECUTOR_ADMIN_TOKEN missing", 500);
+
+  const expected = crypto.createHash("sha256").update(ADMIN_TOKEN).digest();
+  const given = crypto.createHash("sha256").update(req.header("x-admin-token") || "").digest();
+  if (!crypto.timingSafeEqual(given, expected)) throw new AuthError("UNAUTHORIZED", "unauthorized");
+
+  return { clientId: "admin", scopes: [], mode: "admin" };
+}
+
+function authenticateSigned(req: Request): AuthContext {
+  const clientId = req.header("x-executor-client")!;
+  const timestamp = req.header("x-executor-timestamp") || "";
+  const nonce = req.header("x-executor-nonce") || "";
+  const signature = req.header("x-executor-signature") || "";
+
+  const client = clients.get(clientId);
+  if (!client) throw new AuthError("UNKNOWN_CLIENT", "Unknown API client");
+
+  if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    throw new AuthError("STALE_TIMESTAMP", `Timestamp outside the allowed ${MAX_SKEW_SECONDS}s window`);
+  }
+
+  if (nonce.length < 8 || nonce.length > 128) throw new AuthError("INVALID_NONCE", "Nonce must be 8-128 chars");
+
+  const base = signatureBase(req.method, req.originalUrl, rawBodies.get(req), req.header("x-user-phone") || "", timestamp, nonce);
+  const expected = Buffer.from(sign(client.secret, base), "hex");
+  const given = Buffer.from(signature, "hex");
+
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new AuthError("INVALID_SIGNATURE", "Invalid request signature");
+  }
+
+  // Só registra o nonce depois da assinatura válida (não deixa terceiros "queimarem" nonces)
+  if (!rememberNonce(`${clientId}:${nonce}`)) throw new AuthError("REPLAYED_NONCE", "Nonce already used");
+
+  return { clientId, scopes: client.scopes, mode: "signed" };
+}
+
+export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (req.path === "/health") return next();
+
+  // Case-insensitive como o roteamento do Express
+  if (/^\/admin(\/|$)/i.test(req.path)) {
+    res.locals.auth = authenticateAdmin(req);
+    return next();
+  }
+
+  let ctx: AuthContext;
+
+  if (req.header("x-executor-client")) {
+    ctx = authenticateSigned(req);
+  } else if (LEGACY_ENABLED && req.header("x-executor-token") !== undefined) {
+    if (!LEGACY_TOKEN) throw new ExecutorError("EXECUTOR_API_TOKEN_MISSING", "EXECUTOR_API_TOKEN missing", 500);
+    if (req.header("x-executor-token") !== LEGACY_TOKEN) throw new AuthError("UNAUTHORIZED", "unauthorized");
+    ctx = { clientId: "legacy", scopes: ["*"], mode: "legacy" };
+  } else {
+    throw new AuthError("UNAUTHORIZED", "unauthorized");
+  }
+
+  const scope = requiredScope(req.method, req.path);
+  if (!ctx.scopes.includes("*") && !ctx.scopes.includes(scope)) {
+    throw new AuthError("FORBIDDEN_SCOPE", `API client lacks scope ${scope}`, 403);
+  }
+
+  res.locals.auth = ctx;
+  next();
+}
@@ -0,0 +1,146 @@
+/**
+ * Multi-leg (basket) market orders
+ *
+ * Legs run sequentially through the regular market-order path (ledger, risk, slippage guard).
+ * Before anything is posted, total USDC of the BUY legs is checked against the CLOB
+ * collateral balance/allowance.
+ *
+ * Failure policy:
+ * - best_effort: run every leg, report each result
+ * - stop_on_failure: stop at the first failed leg (remaining legs are "skipped")
+ * - unwind: stop at the first failed leg and close the filled ones with opposite market orders;
+ *   selling back a BUY leg is reduce-only, capped at the shares that leg filled (not blocked
+ *   by the kill switch, the per-order or daily caps or the rate limit); buying back a SELL
+ *   leg opens exposure again and goes through every check
+ */
+
+import crypto from "crypto";
+import { BigNumber, utils } from "ethers";
+import { getL2Client, AssetType } from "./polymarketClob";
+import { executeMarketOrder, type MarketOrderRequest } from "./marketOrders";
+import { ExecutorError, toExecutorError } from "./errors";
+
+export type BatchPolicy = "best_effort" | "stop_on_failure" | "unwind";
+
+export type LegResult = {
+  index: number;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  amount: number;
+  status: "filled" | "failed" | "skipped";
+  data?: any;
+  error?: { code: string; message: string };
+  unwind?: {
+    status: "filled" | "failed";
+    side: "BUY" | "SELL";
+    amount: number;
+    data?: any;
+    error?: { code: string; message: string };
+  };
+};
+
+export class BatchError extends ExecutorError {
+  constructor(code: "BATCH_INSUFFICIENT_COLLATERAL", message: string, status = 422, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "BatchError";
+  }
+}
+
+function errorInfo(error: unknown) {
+  const e = toExecutorError(error);
+  return { code: e.code, message: e.message };
+}
+
+/**
+ * Collateral disponível = min(balance, allowance) reportado pelo CLOB (6 decimais)
+ */
+async function assertCollateralFor(phone: string, legs: MarketOrderRequest[]) {
+  const buyTotal = legs.filter((l) => l.side === "BUY").reduce((sum, l) => sum + l.amount, 0);
+  if (buyTotal === 0) return;
+
+  const client = await getL2Client(phone);
+  const collateral = await client.getBalanceAllowance({ asset_type: AssetType.COLLATERAL });
+
+  const balance = BigNumber.from(collateral.balance || "0");
+  const allowance = BigNumber.from(collateral.allowance || "0");
+  const available = balance.lt(allowance) ? balance : allowance;
+  const required = utils.parseUnits(buyTotal.toFixed(6), 6);
+
+  if (available.lt(required)) {
+    throw new BatchError("BATCH_INSUFFICIENT_COLLATERAL", "Not enough USDC balance / allowance for the BUY legs", 422, {
+      required: utils.formatUnits(required, 6),
+      available: utils.formatUnits(available, 6),
+    });
+  }
+}
+
+/**
+ * Opposite order for a filled leg.
+ * BUY: makingAmount = USDC pago, takingAmount = shares recebidas → vende as shares
+ * SELL: makingAmount = shares vendidas, takingAmount = USDC recebido → recompra com o USDC
+ */
+function unwindOrder(leg: MarketOrderRequest, fill: any): MarketOrderRequest | null {
+  const amount = Number(fill?.takingAmount);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+
+  return { tokenId: leg.tokenId, side: leg.side === "BUY" ? "SELL" : "BUY", amount };
+}
+
+export async function executeBatch(phone: string, legs: MarketOrderRequest[], policy: BatchPolicy) {
+  const batchId = crypto.randomUUID();
+
+  await assertCollateralFor(phone, legs);
+
+  const results: LegResult[] = legs.map((leg, index) => ({
+    index,
+    tokenId: leg.tokenId,
+    side: leg.side,
+    amount: leg.amount,
+    status: "skipped",
+  }));
+
+  let failed = false;
+  for (const [index, leg] of legs.entries()) {
+    const result = results[index]!;
+    try {
+      result.data = await executeMarketOrder(phone, leg, { batchId, leg: index });
+      result.status = "filled";
+    } catch (error) {
+      result.status = "failed";
+      result.error = errorInfo(error);
+      failed = true;
+      if (policy !== "best_effort") break;
+    }
+  }
+
+  if (failed && policy === "unwind") {
+    // Desfaz na ordem inversa
+    for (const result of [...results].reverse()) {
+      if (result.status !== "filled") continue;
+
+      const order = unwindOrder(legs[result.index]!, result.data);
+      if (!order) continue;
+
+      // Vender de volta um BUY: reduce-only sobre as shares que a própria perna recebeu
+      const reduceOnly = order.side === "SELL" ? { heldShares: order.amount } : undefined;
+
+      try {
+        const data = await executeMarketOrder(phone, order, { batchId, unwindOf: result.index }, { reduceOnly });
+        result.unwind = { status: "filled", side: order.side, amount: order.amount, data };
+      } catch (error) {
+        result.unwind = { status: "failed", side: order.side, amount: order.amount, error: errorInfo(error) };
+      }
+    }
+  }
+
+  const filled = results.filter((r) => r.status === "filled").length;
+  const unwound = results.filter((r) => r.unwind?.status === "filled").length;
+  const status =
+    filled === legs.length ? "completed"
+    : filled === 0 ? "failed"
+    : policy === "unwind" ? (unwound === filled ? "unwound" : "unwind_incomplete")
+    : "partial";
+
+  console.log(`[Batch] ${batchId} for user ${phone.slice(-4)}: ${status} (${filled}/${legs.length} legs filled, policy ${policy})`);
+  return { batchId, policy, status, legs: results };
+}
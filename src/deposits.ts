@@ -0,0 +1,347 @@
+/**
+ * Deposit watcher
+ * Detects USDC (collateral) sent to known derived wallets by scanning the token's
+ * Transfer logs from a persisted block cursor (deposits.json):
+ *
+ * - Known addresses come from the user registry (recorded when a wallet is first used)
+ * - Each log is recorded once (txHash:logIndex), so restarts and re-scans never double-count
+ * - A deposit stays "pending" until DEPOSIT_CONFIRMATIONS blocks deep; its receipt is then
+ *   re-checked (reorg) before it becomes "confirmed" (or "reorged" if the tx is gone)
+ * - A "reorged" deposit's receipt is looked up again for 24h, since a re-mined tx may land
+ *   at or below the cursor where it won't be scanned again
+ * - USDC coming from the protocol contracts (exchange fills, CTF redeems, neg-risk
+ *   conversions) is not a deposit
+ * - On confirmation: webhook deposit.detected and, optionally, a gas top-up
+ *   (DEPOSIT_AUTO_GAS) and the trading approvals (DEPOSIT_AUTO_APPROVALS)
+ */
+
+import { providers, utils } from "ethers";
+import { openJsonStore, archiveRecords, hashPhone } from "./localStore";
+import { listUserRecords, findPhoneByAddress } from "./userRegistry";
+import { COLLATERAL, CTF, EXCHANGE, NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER, enableTrading, getOnchainApprovals } from "./polymarketOnchain";
+import { ensureGasForAddress } from "./gasManager";
+import { emitWebhook } from "./webhooks";
+
+const RPC_URL = (process.env.POLYGON_RPC_URL || "").trim() || "https://polygon-rpc.com";
+const POLYMARKET_CHAIN_ID = Number(process.env.POLYMARKET_CHAIN_ID ?? "137");
+const POLL_MS = Number(process.env.DEPOSIT_POLL_SECONDS ?? "15") * 1000;
+const CONFIRMATIONS = Number(process.env.DEPOSIT_CONFIRMATIONS ?? "30");
+const START_BLOCK = (process.env.DEPOSIT_START_BLOCK || "").trim();
+const MAX_BLOCK_RANGE = Number(process.env.DEPOSIT_MAX_BLOCK_RANGE ?? "2000");
+const MAX_RANGES_PER_TICK = 10;
+const REORG_RECHECK_MS = 24 * 60 * 60 * 1000;
+const ADDRESSES_PER_QUERY = 50;
+const AUTO_GAS = process.env.DEPOSIT_AUTO_GAS === "true";
+const AUTO_APPROVALS = process.env.DEPOSIT_AUTO_APPROVALS === "true";
+
+const transferEvent = new utils.Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+const TRANSFER_TOPIC = transferEvent.getEventTopic("Transfer");
+
+// USDC vindo daqui é liquidação de trade / resgate / conversão neg-risk, não depósito
+const PROTOCOL_ADDRESSES = new Set([EXCHANGE, CTF, NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER].map((a) => a.toLowerCase()));
+
+export type SetupResult = { status: "done" | "skipped" | "failed"; detail: string | null; at: string };
+
+export type Deposit = {
+  id: string; // txHash:logIndex
+  phoneHash: string;
+  address: string;
+  from: string;
+  amount: string; // USDC
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  confirmations: number;
+  status: "pending" | "confirmed" | "reorged";
+  setup: { gas: SetupResult | null; approvals: SetupResult | null };
+  detectedAt: string;
+  confirmedAt: string | null;
+  updatedAt: string;
+};
+
+type DepositState = { cursor: number | null; deposits: Deposit[] };
+
+// Depósitos resolvidos além da retenção vão pro arquivo (o id dedup só importa perto do cursor)
+function compactDeposits(state: DepositState, cutoffMs: number) {
+  const old = (d: Deposit) => d.status !== "pending" && Date.parse(d.updatedAt) < cutoffMs;
+  archiveRecords("deposits.json", state.deposits.filter(old));
+  state.deposits = state.deposits.filter((d) => !old(d));
+}
+
+const store = openJsonStore<DepositState>("deposits.json", () => ({ cursor: null, deposits: [] }), { compact: compactDeposits });
+
+const provider = new providers.JsonRpcProvider(RPC_URL, POLYMARKET_CHAIN_ID);
+
+function patch(id: string, changes: Partial<Deposit>) {
+  store.update((s) => {
+    const d = s.deposits.find((x) => x.id === id);
+    if (d) Object.assign(d, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+// ============================================================================
+// SCAN
+// ============================================================================
+
+/** endereço (lowercase) → phone hash */
+function knownAddresses(): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const [phoneHash, r] of listUserRecords()) if (r.address) out.set(r.address.toLowerCase(), phoneHash);
+  return out;
+}
+
+async function scanRange(fromBlock: number, toBlock: number, users: Map<string, string>) {
+  const addresses = Array.from(users.keys());
+
+  for (let i = 0; i < addresses.length; i += ADDRESSES_PER_QUERY) {
+    const chunk = addresses.slice(i, i + ADDRESSES_PER_QUERY);
+    const logs = await provider.getLogs({
+      address: COLLATERAL,
+      fromBlock,
+      toBlock,
+      topics: [TRANSFER_TOPIC, null, chunk.map((a) => utils.hexZeroPad(a, 32))],
+    });
+
+    for (const log of logs) {
+      if (log.removed) continue;
+
+      const { args } = transferEvent.parseLog(log);
+      const from = String(args.from);
+      const to = String(args.to);
+      if (PROTOCOL_ADDRESSES.has(from.toLowerCase())) continue;
+
+      const id = `${log.transactionHash}:${log.logIndex}`;
+      const amount = utils.formatUnits(args.value, 6);
+      const existing = findDeposit(log.transactionHash, log.logIndex, to, amount);
+      if (existing && existing.status !== "reorged") continue;
+
+      if (existing) {
+        // Tx reincluída em outro bloco depois de um reorg
+        patch(existing.id, { status: "pending", blockNumber: log.blockNumber, blockHash: log.blockHash, logIndex: log.logIndex, confirmations: 0 });
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const deposit: Deposit = {
+        id,
+        phoneHash: users.get(to.toLowerCase())!,
+        address: to,
+        from,
+        amount,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        confirmations: 0,
+        status: "pending",
+        setup: { gas: null, approvals: null },
+        detectedAt: now,
+        confirmedAt: null,
+        updatedAt: now,
+      };
+      store.update((s) => {
+        s.deposits.push(deposit);
+      });
+      console.log(`[Deposits] ${deposit.amount} USDC → ${to} (${log.transactionHash}), waiting ${CONFIRMATIONS} confirmations`);
+    }
+  }
+}
+
+/**
+ * Deposit for a Transfer log: same position, or a reorged one of the same tx, wallet and
+ * amount (a tx re-mined in another block gets a new logIndex; the id keeps the first one)
+ */
+function findDeposit(txHash: string, logIndex: number, to: string, amount: string): Deposit | undefined {
+  const deposits = store.get().deposits;
+  return (
+    deposits.find((d) => d.txHash === txHash && d.logIndex === logIndex) ??
+    deposits.find((d) => d.status === "reorged" && d.txHash === txHash && d.address.toLowerCase() === to.toLowerCase() && d.amount === amount)
+  );
+}
+
+// Log do depósito no receipt (a posição muda se a tx foi reminerada)
+function transferLogOf(receipt: providers.TransactionReceipt, d: Deposit): providers.Log | undefined {
+  return receipt.logs.find((log) => {
+    if (log.address.toLowerCase() !== COLLATERAL.toLowerCase() || log.topics[0] !== TRANSFER_TOPIC) return false;
+    const { args } = transferEvent.parseLog(log);
+    return String(args.to).toLowerCase() === d.address.toLowerCase() && utils.formatUnits(args.value, 6) === d.amount;
+  });
+}
+
+/**
+ * Reorged deposits whose tx was re-mined at or below the cursor are never scanned again:
+ * look their receipt up for a while and put them back to pending if the transfer is there
+ */
+async function recheckReorged(head: number) {
+  const cutoff = Date.now() - REORG_RECHECK_MS;
+
+  for (const d of store.get().deposits.filter((x) => x.status === "reorged" && Date.parse(x.updatedAt) >= cutoff)) {
+    const receipt = await provider.getTransactionReceipt(d.txHash);
+    const log = receipt && receipt.status === 1 ? transferLogOf(receipt, d) : undefined;
+    if (!receipt || !log) continue;
+
+    patch(d.id, {
+      status: "pending",
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      logIndex: log.logIndex,
+      confirmations: head - receipt.blockNumber + 1,
+    });
+    console.log(`[Deposits] ${d.id} re-mined in block ${receipt.blockNumber}`);
+  }
+}
+
+async function updateConfirmations(head: number) {
+  for (const d of store.get().deposits.filter((x) => x.status === "pending")) {
+    const confirmations = head - d.blockNumber + 1;
+    if (confirmations < CONFIRMATIONS) {
+      if (confirmations !== d.confirmations) patch(d.id, { confirmations });
+      continue;
+    }
+
+    const receipt = await provider.getTransactionReceipt(d.txHash);
+    if (!receipt) {
+      patch(d.id, { status: "reorged", confirmations: 0 });
+      console.warn(`[Deposits] ${d.id} disappeared (reorg)`);
+      continue;
+    }
+    if (receipt.blockHash !== d.blockHash) {
+      // Minerada em outro bloco: recomeça a contagem a partir dele
+      const log = receipt.status === 1 ? transferLogOf(receipt, d) : undefined;
+      patch(d.id, {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        confirmations: head - receipt.blockNumber + 1,
+        ...(log ? { logIndex: log.logIndex } : { status: "reorged" as const, confirmations: 0 }),
+      });
+      continue;
+    }
+
+    patch(d.id, { status: "confirmed", confirmations, confirmedAt: new Date().toISOString() });
+    const confirmed = store.get().deposits.find((x) => x.id === d.id)!;
+    console.log(`[Deposits] Confirmed ${confirmed.amount} USDC → ${confirmed.address} (${confirmed.txHash})`);
+
+    emitWebhook("deposit.detected", depositView(confirmed), { phoneHash: confirmed.phoneHash });
+    void runSetup(confirmed).catch((e) => console.error(`[Deposits] Setup after ${d.id} failed:`, e.message));
+  }
+}
+
+// ============================================================================
+// AUTO SETUP
+// ============================================================================
+
+function result(status: SetupResult["status"], detail: string | null = null): SetupResult {
+  return { status, detail, at: new Date().toISOString() };
+}
+
+async function runSetup(d: Deposit) {
+  if (!AUTO_GAS && !AUTO_APPROVALS) return;
+
+  const phone = findPhoneByAddress(d.address);
+  const setup: Deposit["setup"] = { gas: null, approvals: null };
+
+  if (AUTO_GAS) {
+    try {
+      await ensureGasForAddress(d.address, { ...(phone ? { phone } : {}), reason: "deposit" });
+      setup.gas = result("done");
+    } catch (error: any) {
+      setup.gas = result("failed", error.message);
+    }
+  }
+
+  if (AUTO_APPROVALS) {
+    try {
+      if (!phone) {
+        setup.approvals = result("failed", "Could not unseal wallet owner");
+      } else {
+        const current = await getOnchainApprovals(phone);
+        if (current.tradingEnabled && current.negRiskTradingEnabled) {
+          setup.approvals = result("skipped", "already enabled");
+        } else {
+          await enableTrading(phone);
+          setup.approvals = result("done");
+        }
+      }
+    } catch (error: any) {
+      setup.approvals = result("failed", error.message);
+    }
+  }
+
+  patch(d.id, { setup });
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+let checking = false;
+
+async function tick() {
+  if (checking) return;
+  checking = true;
+  try {
+    const head = await provider.getBlockNumber();
+    const { cursor } = store.get();
+
+    // Primeira execução: começa em DEPOSIT_START_BLOCK ou no bloco atual
+    if (cursor === null && !START_BLOCK) {
+      store.update((s) => {
+        s.cursor = head;
+      });
+      return;
+    }
+
+    const users = knownAddresses();
+    let from = cursor === null ? Number(START_BLOCK) : cursor + 1;
+    for (let ranges = 0; from <= head && ranges < MAX_RANGES_PER_TICK; ranges++) {
+      const to = Math.min(head, from + MAX_BLOCK_RANGE - 1);
+      if (users.size > 0) await scanRange(from, to, users);
+      store.update((s) => {
+        s.cursor = to;
+      });
+      from = to + 1;
+    }
+
+    await recheckReorged(head);
+    await updateConfirmations(head);
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Start scanning for deposits (call once at boot; needs a real chain)
+ */
+export function startDepositWatcher() {
+  const run = () => void tick().catch((e) => console.error("[Deposits] Scan failed:", e.message));
+  run();
+  setInterval(run, POLL_MS).unref();
+
+  console.log(`[Deposits] Watcher started (cursor ${store.get().cursor ?? (START_BLOCK || "head")}, ${CONFIRMATIONS} confirmations)`);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+function depositView(d: Deposit) {
+  const { phoneHash: _hash, ...rest } = d;
+  return rest;
+}
+
+export function listDeposits(phone: string, filters: { status?: Deposit["status"] | undefined; limit: number }) {
+  const phoneHash = hashPhone(phone);
+  const own = store.get().deposits.filter((d) => d.phoneHash === phoneHash);
+  const confirmed = own.filter((d) => d.status === "confirmed");
+
+  return {
+    totalConfirmed: utils.formatUnits(confirmed.reduce((sum, d) => sum.add(utils.parseUnits(d.amount, 6)), utils.parseUnits("0", 6)), 6),
+    deposits: own
+      .filter((d) => !filters.status || d.status === filters.status)
+      .slice()
+      .reverse()
+      .slice(0, filters.limit)
+      .map(depositView),
+  };
+}
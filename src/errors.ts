@@ -0,0 +1,249 @@
+/**
+ * Error model
+ * Every error the API returns goes through errorMiddleware and comes out as
+ * { ok: false, error: <CODE>, message, details?, requestId }.
+ *
+ * - ExecutorError: base class, carries a stable machine-readable code + HTTP status
+ * - ValidationError / NotFoundError / AuthError: client-side problems
+ * - UpstreamError: CLOB, Gamma or RPC failures mapped to stable codes
+ * - Domain errors (RiskError, SlippageError, WithdrawalError...) extend ExecutorError
+ */
+
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
+import type { GammaError } from "./polymarketGamma";
+
+export class ExecutorError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status = 500,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ExecutorError";
+  }
+}
+
+export class ValidationError extends ExecutorError {
+  constructor(code: string, message: string, details?: unknown) {
+    super(code, message, 400, details);
+    this.name = "ValidationError";
+  }
+}
+
+export class NotFoundError extends ExecutorError {
+  constructor(code: string, message: string) {
+    super(code, message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+export class AuthError extends ExecutorError {
+  constructor(code: string, message: string, status = 401) {
+    super(code, message, status);
+    this.name = "AuthError";
+  }
+}
+
+export type UpstreamCode =
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_GAS"
+  | "MARKET_CLOSED"
+  | "ORDERBOOK_NOT_FOUND"
+  | "NO_LIQUIDITY"
+  | "INVALID_ORDER"
+  | "GEOBLOCKED"
+  | "UPSTREAM_AUTH"
+  | "UPSTREAM_RATE_LIMITED"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_NOT_FOUND"
+  | "UPSTREAM_ERROR";
+
+export class UpstreamError extends ExecutorError {
+  constructor(
+    code: UpstreamCode,
+    message: string,
+    status: number,
+    public readonly upstream: "clob" | "gamma" | "rpc",
+    details?: unknown,
+  ) {
+    super(code, message, status, details);
+    this.name = "UpstreamError";
+  }
+}
+
+// ============================================================================
+// UPSTREAM MAPPING
+// ============================================================================
+
+const STATUS_BY_CODE: Record<UpstreamCode, number> = {
+  INSUFFICIENT_BALANCE: 422,
+  INSUFFICIENT_GAS: 503,
+  MARKET_CLOSED: 409,
+  ORDERBOOK_NOT_FOUND: 404,
+  NO_LIQUIDITY: 422,
+  INVALID_ORDER: 400,
+  GEOBLOCKED: 451,
+  UPSTREAM_AUTH: 502,
+  UPSTREAM_RATE_LIMITED: 503,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_UNAVAILABLE: 502,
+  UPSTREAM_NOT_FOUND: 404,
+  UPSTREAM_ERROR: 502,
+};
+
+function classify(message: string, status?: number): UpstreamCode {
+  if (/not enough balance|insufficient balance|balance \/ allowance/i.test(message)) return "INSUFFICIENT_BALANCE";
+  if (/insufficient funds for gas|insufficient funds/i.test(message)) return "INSUFFICIENT_GAS";
+  if (/market.*(closed|not active|resolved)|trading.*(disabled|paused)|closed_only/i.test(message)) return "MARKET_CLOSED";
+  if (/no orderbook/i.test(message)) return "ORDERBOOK_NOT_FOUND";
+  if (/no orders found to match|no match/i.test(message)) return "NO_LIQUIDITY";
+  if (/invalid (price|tick|size|order|amount)|tick size|fee rate|only supported for|lower than the minimum|min(imum)? (order )?size/i.test(message)) {
+    return "INVALID_ORDER";
+  }
+  if (status === 403 || /restricted in your region|geoblock|geo-block|cloudflare/i.test(message)) return "GEOBLOCKED";
+  if (status === 401 || /unauthorized|invalid api key/i.test(message)) return "UPSTREAM_AUTH";
+  if (status === 429 || /too many requests|rate limit/i.test(message)) return "UPSTREAM_RATE_LIMITED";
+  if (/timeout|timed out|ETIMEDOUT|ECONNABORTED/i.test(message)) return "UPSTREAM_TIMEOUT";
+  if (/ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|ENETUNREACH|fetch failed|network error|socket hang up/i.test(message)) {
+    return "UPSTREAM_UNAVAILABLE";
+  }
+  if (status === 404) return "UPSTREAM_NOT_FOUND";
+  return "UPSTREAM_ERROR";
+}
+
+export function upstreamError(
+  upstream: UpstreamError["upstream"],
+  message: string,
+  status?: number,
+  details?: unknown,
+): UpstreamError {
+  const code = classify(message, status);
+  return new UpstreamError(code, message, STATUS_BY_CODE[code], upstream, details);
+}
+
+/**
+ * clob-client não lança em erro HTTP: devolve { error, status }.
+ * Post de ordem recusado vem como { success: false, errorMsg }.
+ * Converte ambos em UpstreamError.
+ */
+export function unwrapClobResult<T>(result: T): T {
+  const r: any = result;
+  if (!r || typeof r !== "object" || Array.isArray(r)) return result;
+
+  if ("error" in r && r.error !== undefined && r.error !== null && r.error !== "") {
+    const message = typeof r.error === "string" ? r.error : JSON.stringify(r.error);
+    throw upstreamError("clob", message, typeof r.status === "number" ? r.status : undefined, { response: r });
+  }
+
+  if (r.success === false && r.errorMsg) {
+    throw upstreamError("clob", String(r.errorMsg), undefined, { response: r });
+  }
+
+  return result;
+}
+
+/**
+ * clob-client também lança Error puro quando a ordem nem sai do client (book vazio: "no match",
+ * preço / tick inválidos...). Converte em UpstreamError classificado (NO_LIQUIDITY, INVALID_ORDER...).
+ */
+export function rethrowClobError(error: unknown): never {
+  if (error instanceof ExecutorError) throw error;
+  throw upstreamError("clob", error instanceof Error ? error.message : String(error));
+}
+
+const RPC_ERROR_CODES = new Set([
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "INSUFFICIENT_FUNDS",
+  "CALL_EXCEPTION",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "UNPREDICTABLE_GAS_LIMIT",
+  "TRANSACTION_REPLACED",
+]);
+
+function isGammaError(err: any): err is GammaError {
+  return err instanceof Error && typeof (err as GammaError).status === "number" && typeof (err as GammaError).url === "string";
+}
+
+/**
+ * Map anything thrown by a route to an ExecutorError.
+ * Only CLOB (unwrapClobResult / rethrowClobError), Gamma and ethers (RPC) errors become typed upstream
+ * errors; anything else is a 500 INTERNAL_ERROR.
+ */
+export function toExecutorError(err: unknown): ExecutorError {
+  if (err instanceof ExecutorError) return err;
+
+  if (err instanceof ZodError) {
+    return new ValidationError(
+      "VALIDATION_ERROR",
+      "Invalid request",
+      err.issues.map((i) => ({ path: i.path.join("."), message: i.message, code: i.code })),
+    );
+  }
+
+  const e: any = err;
+
+  // express.json() com body inválido
+  if (e?.type === "entity.parse.failed") {
+    return new ValidationError("INVALID_JSON", "Request body is not valid JSON");
+  }
+
+  // GammaError: reaproveita status/body do Gamma
+  if (isGammaError(e)) {
+    return upstreamError("gamma", e.message, e.status, { status: e.status, body: e.bodyText?.slice(0, 500), url: e.url });
+  }
+
+  // ethers (RPC): códigos do logger que vêm do node, não de bug local (INVALID_ARGUMENT etc.)
+  if (typeof e?.code === "string" && RPC_ERROR_CODES.has(e.code)) {
+    if (e.code === "INSUFFICIENT_FUNDS") return new UpstreamError("INSUFFICIENT_GAS", e.message, 503, "rpc");
+    if (e.code === "TIMEOUT") return new UpstreamError("UPSTREAM_TIMEOUT", e.message, 504, "rpc");
+    if (e.code === "CALL_EXCEPTION") return new UpstreamError("UPSTREAM_ERROR", e.reason ?? e.message, 502, "rpc");
+    if (e.code === "NETWORK_ERROR" || e.code === "SERVER_ERROR") return new UpstreamError("UPSTREAM_UNAVAILABLE", e.message, 502, "rpc");
+    return upstreamError("rpc", e.reason ?? e.message);
+  }
+
+  // Qualquer outra coisa é bug nosso: a mensagem não é classificada (um "timeout" local não vira 504)
+  return new ExecutorError("INTERNAL_ERROR", "Internal error", 500);
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+export function requestIdMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header("x-request-id")?.trim();
+  const requestId = incoming && incoming.length <= 128 ? incoming : crypto.randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  next();
+}
+
+export function notFoundMiddleware(req: Request, _res: Response, next: NextFunction) {
+  next(new NotFoundError("ROUTE_NOT_FOUND", `Cannot ${req.method} ${req.path}`));
+}
+
+export function errorMiddleware(err: unknown, req: Request, res: Response, next: NextFunction) {
+  // Stream (SSE) já começou: não dá pra mandar envelope JSON
+  if (res.headersSent) return next(err);
+
+  const error = toExecutorError(err);
+  const requestId = res.locals.requestId;
+
+  if (error.status >= 500) {
+    console.error(`[Executor] ${req.method} ${req.path} failed (${error.code}, request ${requestId}):`, err);
+  }
+
+  res.status(error.status).json({
+    ok: false,
+    error: error.code,
+    message: error.message,
+    ...(error.details !== undefined ? { details: error.details } : {}),
+    requestId,
+  });
+}
@@ -0,0 +1,460 @@
+/**
+ * Execution algorithms for large orders
+ *
+ * - TWAP: splits a parent amount into `slices` FAK market orders spread over
+ *   `durationSeconds`. Slices refused by the price limit / empty book are skipped and
+ *   their amount rolls into the next ones. Units follow market orders
+ *   (BUY = USDC, SELL = shares).
+ * - Iceberg: keeps one GTC limit order of at most `visibleSize` shares resting at `price`,
+ *   refilled as it fills, until `size` shares are done.
+ *
+ * Children go through the same paths as POST /orders/market and /orders/limit
+ * (ledger, risk). Parent + children persist in executions.json (owner phone sealed,
+ * see localStore) and resume at boot. A child caught mid-submit by a restart is marked
+ * "interrupted" (check the order history) instead of being resent.
+ *
+ * Lifecycle: running ⇄ paused → (completed | cancelled | failed)
+ */
+
+import crypto from "crypto";
+import type { OpenOrder } from "@polymarket/clob-client";
+import { openJsonStore, hashPhone, sealSecret, openSecret, type SealedSecret } from "./localStore";
+import { getL2Client } from "./polymarketClob";
+import { executeMarketOrder } from "./marketOrders";
+import { executeLimitOrder } from "./limitOrders";
+import { ExecutorError, NotFoundError, toExecutorError } from "./errors";
+
+const TICK_MS = 1000;
+const ICEBERG_POLL_MS = Number(process.env.ICEBERG_POLL_SECONDS ?? "5") * 1000;
+const MAX_CONSECUTIVE_FAILURES = 3;
+const DUST = 1e-6;
+
+// Falhas "de mercado": a fatia é pulada e o valor vai pras próximas
+const SKIPPABLE_CODES = new Set(["PRICE_LIMIT_EXCEEDED", "SLIPPAGE_LIMIT_EXCEEDED", "NO_LIQUIDITY"]);
+
+export type ExecutionStatus = "running" | "paused" | "completed" | "cancelled" | "failed";
+
+export type ChildOrder = {
+  index: number;
+  kind: "market" | "limit";
+  status: "submitting" | "live" | "filled" | "partial" | "skipped" | "failed" | "cancelled" | "interrupted";
+  amount: number;
+  filled: number; // mesma unidade do parent
+  orderId: string | null;
+  error: { code: string; message: string } | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TwapParams = { slices: number; durationSeconds: number; priceLimit: number | null; maxSlippageBps: number | null };
+export type IcebergParams = { price: number; visibleSize: number };
+
+type ExecutionBase = {
+  id: string;
+  phoneHash: string;
+  phoneSealed: SealedSecret;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  amount: number;
+  filled: number;
+  status: ExecutionStatus;
+  children: ChildOrder[];
+  nextRunAt: string | null;
+  consecutiveFailures: number;
+  error: { code: string; message: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+export type Execution =
+  | (ExecutionBase & { algo: "twap"; params: TwapParams })
+  | (ExecutionBase & { algo: "iceberg"; params: IcebergParams });
+
+export type ExecutionCode = "EXECUTION_NOT_RUNNING" | "EXECUTION_NOT_PAUSED" | "EXECUTION_FINISHED";
+
+export class ExecutionError extends ExecutorError {
+  constructor(code: ExecutionCode, message: string, status = 409) {
+    super(code, message, status);
+    this.name = "ExecutionError";
+  }
+}
+
+const store = openJsonStore<{ executions: Execution[] }>("executions.json", () => ({ executions: [] }));
+
+// ============================================================================
+// STATE HELPERS
+// ============================================================================
+
+const round6 = (n: number) => Math.round(n * 1e6) / 1e6;
+
+function find(id: string): Execution | undefined {
+  return store.get().executions.find((e) => e.id === id);
+}
+
+function findOwn(phone: string, id: string): Execution {
+  const e = find(id);
+  if (!e || e.phoneHash !== hashPhone(phone)) throw new NotFoundError("EXECUTION_NOT_FOUND", `Execution ${id} not found`);
+  return e;
+}
+
+function update(id: string, mutate: (e: Execution) => void) {
+  store.update((s) => {
+    const e = s.executions.find((x) => x.id === id);
+    if (!e) return;
+    mutate(e);
+    e.filled = round6(e.children.reduce((sum, c) => sum + c.filled, 0));
+    e.updatedAt = new Date().toISOString();
+  });
+}
+
+function updateChild(id: string, index: number, changes: Partial<ChildOrder>) {
+  update(id, (e) => {
+    const c = e.children[index];
+    if (c) Object.assign(c, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+function addChild(id: string, kind: ChildOrder["kind"], amount: number): number {
+  let index = -1;
+  update(id, (e) => {
+    const now = new Date().toISOString();
+    index = e.children.length;
+    e.children.push({ index, kind, status: "submitting", amount, filled: 0, orderId: null, error: null, createdAt: now, updatedAt: now });
+  });
+  return index;
+}
+
+function finish(id: string, status: Exclude<ExecutionStatus, "running" | "paused">, error?: ExecutorError) {
+  update(id, (e) => {
+    e.status = status;
+    e.nextRunAt = null;
+    e.finishedAt = new Date().toISOString();
+    if (error) e.error = { code: error.code, message: error.message };
+  });
+  console.log(`[Executions] ${id} ${status}`);
+}
+
+/** Public view: progresso + filhos, sem o telefone selado */
+function view(e: Execution) {
+  const { phoneSealed: _sealed, phoneHash: _hash, ...rest } = e;
+  return {
+    ...rest,
+    remaining: round6(Math.max(0, e.amount - e.filled)),
+    progress: e.amount > 0 ? round6(e.filled / e.amount) : 0,
+  };
+}
+
+// Um passo por execução de cada vez (tick, pause e cancel não se atropelam)
+const locks = new Map<string, Promise<unknown>>();
+
+function exclusive<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(id) ?? Promise.resolve()).then(fn);
+  const tail = run.catch(() => undefined);
+  locks.set(id, tail);
+  tail.then(() => {
+    if (locks.get(id) === tail) locks.delete(id);
+  });
+  return run;
+}
+
+// ============================================================================
+// ALGORITHMS
+// ============================================================================
+
+function ownerOf(e: Execution): string {
+  const phone = openSecret(e.phoneSealed);
+  if (!phone) throw new ExecutorError("EXECUTION_OWNER_UNAVAILABLE", "Could not unseal execution owner");
+  return phone;
+}
+
+async function twapStep(e: Extract<Execution, { algo: "twap" }>) {
+  const phone = ownerOf(e);
+  const remaining = round6(e.amount - e.filled);
+  const slicesLeft = e.params.slices - e.children.length;
+
+  if (slicesLeft <= 0 || remaining <= DUST) return finish(e.id, "completed");
+
+  const amount = round6(remaining / slicesLeft);
+  const index = addChild(e.id, "market", amount);
+  const limit = e.params.priceLimit;
+
+  try {
+    const posted = await executeMarketOrder(
+      phone,
+      {
+        tokenId: e.tokenId,
+        side: e.side,
+        amount,
+        ...(limit !== null ? (e.side === "BUY" ? { maxPrice: limit } : { minPrice: limit }) : {}),
+        ...(e.params.maxSlippageBps !== null ? { maxSlippageBps: e.params.maxSlippageBps } : {}),
+      },
+      { executionId: e.id, child: index },
+    );
+
+    // makingAmount: USDC pago (BUY) / shares vendidas (SELL) — mesma unidade do amount
+    const filled = round6(Number(posted?.makingAmount) || 0);
+    updateChild(e.id, index, { status: filled + DUST >= amount ? "filled" : "partial", filled, orderId: posted?.orderID || null });
+    update(e.id, (x) => {
+      x.consecutiveFailures = 0;
+    });
+  } catch (error) {
+    const err = toExecutorError(error);
+    const skipped = SKIPPABLE_CODES.has(err.code);
+    updateChild(e.id, index, { status: skipped ? "skipped" : "failed", error: { code: err.code, message: err.message } });
+    update(e.id, (x) => {
+      x.consecutiveFailures = skipped ? 0 : x.consecutiveFailures + 1;
+    });
+    if (!skipped && find(e.id)!.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) return finish(e.id, "failed", err);
+  }
+
+  const current = find(e.id)!;
+  if (current.children.length >= e.params.slices || current.amount - current.filled <= DUST) {
+    return finish(e.id, "completed");
+  }
+
+  const intervalMs = (e.params.durationSeconds * 1000) / e.params.slices;
+  update(e.id, (x) => {
+    if (x.status === "running") x.nextRunAt = new Date(Date.now() + intervalMs).toISOString();
+  });
+}
+
+/**
+ * Resolve the iceberg's live child against the CLOB. Returns true while it is still resting.
+ * With `cancel`, pulls it from the book first (pause / cancel).
+ */
+async function settleLiveChild(e: Execution, phone: string, cancel: boolean): Promise<boolean> {
+  const child = e.children.find((c) => c.status === "live");
+  if (!child || !child.orderId) return false;
+
+  const client = await getL2Client(phone);
+  // Ordem desconhecida pelo CLOB volta vazia
+  const order: OpenOrder | null = await client.getOrder(child.orderId);
+  const matched = round6(Number(order?.size_matched) || 0);
+  const live = Boolean(order) && String(order?.status).toUpperCase() === "LIVE" && matched + DUST < child.amount;
+
+  if (live && !cancel) {
+    if (matched !== child.filled) updateChild(e.id, child.index, { filled: matched });
+    return true;
+  }
+
+  if (live) await client.cancelOrder({ orderID: child.orderId });
+  updateChild(e.id, child.index, {
+    filled: matched,
+    status: matched + DUST >= child.amount ? "filled" : matched > 0 ? "partial" : "cancelled",
+  });
+  return false;
+}
+
+async function icebergStep(e: Extract<Execution, { algo: "iceberg" }>) {
+  const phone = ownerOf(e);
+
+  const resting = await settleLiveChild(e, phone, false);
+  const current = find(e.id)!;
+  const remaining = round6(current.amount - current.filled);
+
+  if (!resting && remaining <= DUST) return finish(e.id, "completed");
+
+  if (!resting) {
+    const size = round6(Math.min(e.params.visibleSize, remaining));
+    const index = addChild(e.id, "limit", size);
+
+    try {
+      const posted = await executeLimitOrder(
+        phone,
+        { tokenId: e.tokenId, side: e.side, price: e.params.price, size, orderType: "GTC" },
+        { executionId: e.id, child: index },
+      );
+      if (!posted?.orderID) throw new ExecutorError("EXECUTION_CHILD_REJECTED", "CLOB returned no order id", 502);
+
+      updateChild(e.id, index, { status: "live", orderId: posted.orderID });
+      update(e.id, (x) => {
+        x.consecutiveFailures = 0;
+      });
+    } catch (error) {
+      const err = toExecutorError(error);
+      updateChild(e.id, index, { status: "failed", error: { code: err.code, message: err.message } });
+      update(e.id, (x) => {
+        x.consecutiveFailures += 1;
+      });
+      if (find(e.id)!.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) return finish(e.id, "failed", err);
+    }
+  }
+
+  update(e.id, (x) => {
+    if (x.status === "running") x.nextRunAt = new Date(Date.now() + ICEBERG_POLL_MS).toISOString();
+  });
+}
+
+async function step(id: string) {
+  const e = find(id);
+  if (!e || e.status !== "running") return;
+
+  try {
+    if (e.algo === "twap") await twapStep(e);
+    else await icebergStep(e);
+  } catch (error) {
+    // Erro fora de uma ordem filha (ex: consulta ao CLOB): tenta de novo no próximo tick
+    console.error(`[Executions] Step of ${id} failed:`, error);
+    update(id, (x) => {
+      if (x.status === "running") x.nextRunAt = new Date(Date.now() + ICEBERG_POLL_MS).toISOString();
+    });
+  }
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+type ExecutionInput = Pick<ExecutionBase, "tokenId" | "side" | "amount"> &
+  ({ algo: "twap"; params: TwapParams } | { algo: "iceberg"; params: IcebergParams });
+
+function create(phone: string, input: ExecutionInput): Execution {
+  const now = new Date().toISOString();
+  const base: ExecutionBase = {
+    id: crypto.randomUUID(),
+    phoneHash: hashPhone(phone),
+    phoneSealed: sealSecret(phone),
+    tokenId: input.tokenId,
+    side: input.side,
+    amount: input.amount,
+    filled: 0,
+    status: "running",
+    children: [],
+    nextRunAt: now,
+    consecutiveFailures: 0,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+  };
+
+  return input.algo === "twap" ? { ...base, algo: "twap", params: input.params } : { ...base, algo: "iceberg", params: input.params };
+}
+
+export function startTwap(
+  phone: string,
+  input: { tokenId: string; side: "BUY" | "SELL"; amount: number; slices: number; durationSeconds: number; priceLimit?: number | undefined; maxSlippageBps?: number | undefined },
+) {
+  const execution = create(phone, {
+    algo: "twap",
+    tokenId: input.tokenId,
+    side: input.side,
+    amount: input.amount,
+    params: {
+      slices: input.slices,
+      durationSeconds: input.durationSeconds,
+      priceLimit: input.priceLimit ?? null,
+      maxSlippageBps: input.maxSlippageBps ?? null,
+    },
+  });
+  store.update((s) => {
+    s.executions.push(execution);
+  });
+
+  console.log(`[Executions] TWAP ${execution.id} for user ${phone.slice(-4)}: ${input.side} ${input.amount} of ${input.tokenId} in ${input.slices} slices`);
+  return view(execution);
+}
+
+export function startIceberg(
+  phone: string,
+  input: { tokenId: string; side: "BUY" | "SELL"; size: number; price: number; visibleSize: number },
+) {
+  const execution = create(phone, {
+    algo: "iceberg",
+    tokenId: input.tokenId,
+    side: input.side,
+    amount: input.size,
+    params: { price: input.price, visibleSize: input.visibleSize },
+  });
+  store.update((s) => {
+    s.executions.push(execution);
+  });
+
+  console.log(`[Executions] Iceberg ${execution.id} for user ${phone.slice(-4)}: ${input.side} ${input.size} @ ${input.price} of ${input.tokenId}`);
+  return view(execution);
+}
+
+export function getExecution(phone: string, id: string) {
+  return view(findOwn(phone, id));
+}
+
+export function listExecutions(phone: string, status?: ExecutionStatus) {
+  const phoneHash = hashPhone(phone);
+  return store
+    .get()
+    .executions.filter((e) => e.phoneHash === phoneHash && (!status || e.status === status))
+    .slice()
+    .reverse()
+    .map(view);
+}
+
+export async function pauseExecution(phone: string, id: string) {
+  findOwn(phone, id);
+
+  return exclusive(id, async () => {
+    const e = find(id)!;
+    if (e.status !== "running") throw new ExecutionError("EXECUTION_NOT_RUNNING", `Execution ${id} is ${e.status}`);
+
+    update(id, (x) => {
+      x.status = "paused";
+      x.nextRunAt = null;
+    });
+    // Iceberg: tira a fatia visível do book enquanto pausado
+    await settleLiveChild(e, ownerOf(e), true);
+    return getExecution(phone, id);
+  });
+}
+
+export async function resumeExecution(phone: string, id: string) {
+  findOwn(phone, id);
+
+  return exclusive(id, async () => {
+    const e = find(id)!;
+    if (e.status !== "paused") throw new ExecutionError("EXECUTION_NOT_PAUSED", `Execution ${id} is ${e.status}`);
+
+    update(id, (x) => {
+      x.status = "running";
+      x.nextRunAt = new Date().toISOString();
+    });
+    return getExecution(phone, id);
+  });
+}
+
+export async function cancelExecution(phone: string, id: string) {
+  findOwn(phone, id);
+
+  return exclusive(id, async () => {
+    const e = find(id)!;
+    if (e.status !== "running" && e.status !== "paused") {
+      throw new ExecutionError("EXECUTION_FINISHED", `Execution ${id} is ${e.status}`);
+    }
+
+    await settleLiveChild(e, ownerOf(e), true);
+    finish(id, "cancelled");
+    return getExecution(phone, id);
+  });
+}
+
+/**
+ * Resume persisted executions and start the scheduler (call once at boot)
+ */
+export function startExecutionEngine() {
+  for (const e of store.get().executions) {
+    const interrupted = e.children.filter((c) => c.status === "submitting");
+    for (const c of interrupted) {
+      updateChild(e.id, c.index, { status: "interrupted", error: { code: "EXECUTION_INTERRUPTED", message: "Executor restarted while submitting" } });
+    }
+  }
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const e of store.get().executions) {
+      if (e.status !== "running" || !e.nextRunAt || Date.parse(e.nextRunAt) > now || locks.has(e.id)) continue;
+      exclusive(e.id, () => step(e.id)).catch((error) => console.error(`[Executions] ${e.id}:`, error));
+    }
+  }, TICK_MS).unref();
+
+  const active = store.get().executions.filter((e) => e.status === "running").length;
+  console.log(`[Executions] Engine started (${active} running)`);
+}
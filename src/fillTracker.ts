@@ -0,0 +1,67 @@
+/**
+ * Fill tracker
+ * Resting orders (GTC / GTD limits, iceberg slices) fill after the post response, so their
+ * fills only show up on the CLOB user channel. While a user has resting orders in the
+ * ledger, their user feed (marketStream.subscribeUser, shared with SSE clients) stays open:
+ *
+ * - trade → ledger fills (cost basis in /positions) + order.filled / order.partially_filled
+ * - order CANCELLATION (user cancel elsewhere, GTD expiry) → ledger cancelled
+ *
+ * Users with no resting orders left are unsubscribed on the next sweep.
+ */
+
+import { subscribeUser, type UserEvent } from "./marketStream";
+import { applyTradeEvent, listRestingOrders, markOrdersCancelled } from "./tradeLedger";
+import { findPhoneByAddress } from "./userRegistry";
+
+const SWEEP_MS = 5 * 60 * 1000;
+
+// endereço (lowercase) → unsubscribe
+const tracked = new Map<string, () => void>();
+
+function onUserEvent(address: string, event: UserEvent) {
+  if (event.type === "trade") {
+    applyTradeEvent(address, event.data);
+  } else if (String(event.data?.type ?? "").toUpperCase() === "CANCELLATION" && event.data?.id) {
+    markOrdersCancelled([String(event.data.id)]);
+  }
+}
+
+/**
+ * Keep the user's feed open until their resting orders are done (idempotent)
+ */
+export function watchFills(phone: string, address: string): void {
+  const key = address.toLowerCase();
+  if (tracked.has(key)) return;
+
+  tracked.set(key, subscribeUser(phone, address, (event) => onUserEvent(address, event)));
+}
+
+function sweep() {
+  const resting = new Set(listRestingOrders().map((o) => o.address.toLowerCase()));
+
+  for (const [key, unsubscribe] of tracked) {
+    if (resting.has(key)) continue;
+    unsubscribe();
+    tracked.delete(key);
+  }
+}
+
+/**
+ * Resubscribe users with resting orders left from before a restart (call once at boot)
+ */
+export function startFillTracker() {
+  const addresses = new Set(listRestingOrders().map((o) => o.address));
+
+  for (const address of addresses) {
+    const phone = findPhoneByAddress(address);
+    if (!phone) {
+      console.warn(`[Fills] No sealed phone for ${address}, its resting orders won't be tracked`);
+      continue;
+    }
+    watchFills(phone, address);
+  }
+
+  setInterval(sweep, SWEEP_MS).unref();
+  console.log(`[Fills] Tracker started (${tracked.size} wallet(s) with resting orders)`);
+}
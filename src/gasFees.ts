@@ -0,0 +1,68 @@
+/**
+ * EIP-1559 fee policy for every tx the executor sends
+ * maxPriorityFee = node's suggestion clamped to [GAS_MIN_PRIORITY_FEE_GWEI, GAS_MAX_PRIORITY_FEE_GWEI];
+ * maxFee = 2 × base fee + tip, capped at GAS_MAX_FEE_GWEI.
+ */
+
+import { BigNumber, providers, utils } from "ethers";
+import { ExecutorError } from "./errors";
+
+function gweiEnv(name: string, fallback: string): BigNumber {
+  return utils.parseUnits((process.env[name] || "").trim() || fallback, "gwei");
+}
+
+// Polygon exige tip mínimo (~25-30 gwei); o teto protege de picos
+const MIN_PRIORITY_FEE_WEI = gweiEnv("GAS_MIN_PRIORITY_FEE_GWEI", "30");
+const MAX_PRIORITY_FEE_WEI = gweiEnv("GAS_MAX_PRIORITY_FEE_GWEI", "200");
+export const MAX_FEE_WEI = gweiEnv("GAS_MAX_FEE_GWEI", "1000");
+
+export type GasCode = "GAS_TOPUP_RATE_LIMITED" | "GAS_MASTER_BALANCE_LOW" | "GAS_PRICE_ABOVE_CAP" | "GAS_TOPUP_FAILED";
+
+export class GasError extends ExecutorError {
+  constructor(code: GasCode, message: string, status = 503, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "GasError";
+  }
+}
+
+export type FeeOverrides = { maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber };
+
+const min = (a: BigNumber, b: BigNumber) => (a.lt(b) ? a : b);
+const max = (a: BigNumber, b: BigNumber) => (a.gt(b) ? a : b);
+
+/**
+ * Current fees for a new tx. Refuses to send when the base fee alone is above the cap.
+ */
+export async function feeOverrides(provider: providers.Provider): Promise<FeeOverrides> {
+  const feeData = await provider.getFeeData();
+  const baseFee = feeData.lastBaseFeePerGas ?? feeData.gasPrice ?? BigNumber.from(0);
+
+  if (baseFee.gt(MAX_FEE_WEI)) {
+    throw new GasError("GAS_PRICE_ABOVE_CAP", "Network base fee is above the configured cap, try again later", 503, {
+      baseFeeGwei: utils.formatUnits(baseFee, "gwei"),
+      capGwei: utils.formatUnits(MAX_FEE_WEI, "gwei"),
+    });
+  }
+
+  const suggestedTip = feeData.maxPriorityFeePerGas ?? BigNumber.from(0);
+  const maxPriorityFeePerGas = min(max(suggestedTip, MIN_PRIORITY_FEE_WEI), MAX_PRIORITY_FEE_WEI);
+  const maxFeePerGas = min(baseFee.mul(2).add(maxPriorityFeePerGas), MAX_FEE_WEI);
+
+  return { maxFeePerGas, maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas) };
+}
+
+/**
+ * Fees for a replacement (same nonce): at least +25% over the previous attempt
+ * (nodes require ≥ 10%), or the current market fees if higher — still capped.
+ * Returns null when the cap leaves no room to bump.
+ */
+export async function bumpedFees(provider: providers.Provider, previous: FeeOverrides): Promise<FeeOverrides | null> {
+  const bump = (v: BigNumber) => v.mul(125).div(100);
+  const market = await feeOverrides(provider).catch(() => previous);
+
+  const maxPriorityFeePerGas = max(bump(previous.maxPriorityFeePerGas), market.maxPriorityFeePerGas);
+  const maxFeePerGas = min(max(bump(previous.maxFeePerGas), market.maxFeePerGas), MAX_FEE_WEI);
+
+  if (maxFeePerGas.lt(previous.maxFeePerGas.mul(110).div(100)) || maxPriorityFeePerGas.gt(maxFeePerGas)) return null;
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
@@ -0,0 +1,256 @@
+/**
+ * Gas manager
+ * Every on-chain action of a derived wallet goes through here:
+ *
+ * - ensureGasBalance / ensureGasForAddress: tops the wallet up from the master wallet
+ *   when its MATIC is below GAS_TOPUP_THRESHOLD_MATIC (sends GAS_TOPUP_AMOUNT_MATIC)
+ * - Top-ups are rate-limited per user (min interval + daily count), so a user spamming
+ *   on-chain actions can't drain the master wallet
+ * - Fees: EIP-1559 with configurable caps (gasFees.ts); sends go through txManager
+ * - Every top-up is recorded in the gas ledger (gas-ledger.json); one that hits TX_TIMEOUT
+ *   stays "pending" (still counted in the limits) until its tx settles
+ * - startGasMonitoring: periodic master wallet balance check
+ */
+
+import crypto from "crypto";
+import { BigNumber, providers, utils } from "ethers";
+import { openJsonStore, hashPhone } from "./localStore";
+import { getThirdwebSigner, getMasterSigner } from "./thirdwebWallet";
+import { ExecutorError } from "./errors";
+import { GasError } from "./gasFees";
+import { awaitTx, sendAndConfirm, trackedTxId } from "./txManager";
+import { emitWebhook } from "./webhooks";
+
+const RPC_URL = (process.env.POLYGON_RPC_URL || "").trim() || "https://polygon-rpc.com";
+const POLYMARKET_CHAIN_ID = Number(process.env.POLYMARKET_CHAIN_ID ?? "137");
+
+function maticEnv(name: string, fallback: string): BigNumber {
+  return utils.parseEther((process.env[name] || "").trim() || fallback);
+}
+
+const TOPUP_THRESHOLD_WEI = maticEnv("GAS_TOPUP_THRESHOLD_MATIC", "0.1");
+const TOPUP_AMOUNT_WEI = maticEnv("GAS_TOPUP_AMOUNT_MATIC", "0.5");
+const MASTER_MIN_BALANCE_WEI = maticEnv("GAS_MASTER_MIN_BALANCE_MATIC", "10");
+
+const TOPUP_MIN_INTERVAL_MS = Number(process.env.GAS_TOPUP_MIN_INTERVAL_MINUTES ?? "10") * 60 * 1000;
+const TOPUP_MAX_PER_DAY = Number(process.env.GAS_TOPUP_MAX_PER_DAY ?? "5");
+const MONITOR_INTERVAL_MS = 60 * 60 * 1000;
+
+export type GasTopUp = {
+  id: string;
+  phoneHash: string | null;
+  address: string;
+  amount: string; // MATIC
+  balanceBefore: string; // MATIC
+  reason: string;
+  status: "pending" | "confirmed" | "failed";
+  txHash: string | null;
+  // Tx acompanhada pelo txManager depois de um TX_TIMEOUT
+  txId?: string | undefined;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const ledger = openJsonStore<{ topUps: GasTopUp[] }>("gas-ledger.json", () => ({ topUps: [] }));
+
+const provider = new providers.JsonRpcProvider(RPC_URL, POLYMARKET_CHAIN_ID);
+
+// ============================================================================
+// TOP-UPS
+// ============================================================================
+
+function patchTopUp(id: string, changes: Partial<GasTopUp>) {
+  ledger.update((s) => {
+    const t = s.topUps.find((x) => x.id === id);
+    if (t) Object.assign(t, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+// Envio ambíguo: segue "pending" (conta nos limites) até o desfecho da tx
+function settleTopUp(t: GasTopUp, txId: string) {
+  awaitTx(txId).then(
+    ({ hash }) => {
+      patchTopUp(t.id, { status: "confirmed", txHash: hash, error: null });
+      console.log(`[GasManager] Top-up ${t.id} confirmed after a timeout: ${hash}`);
+      emitWebhook(
+        "gas.topped_up",
+        { address: t.address, amount: t.amount, balanceBefore: t.balanceBefore, reason: t.reason, txHash: hash },
+        { phoneHash: t.phoneHash ?? undefined },
+      );
+    },
+    (error) => {
+      patchTopUp(t.id, { status: "failed", error: error.message });
+      console.warn(`[GasManager] Top-up ${t.id} failed after a timeout: ${error.message}`);
+    },
+  );
+}
+
+// Top-ups ambíguos deixados por um restart voltam a acompanhar a tx
+for (const t of ledger.get().topUps) {
+  if (t.status === "pending" && t.txId) settleTopUp(t, t.txId);
+}
+
+// Limite por usuário (ou por endereço, quando não há telefone: carteiras legadas na migração)
+function assertTopUpAllowed(phoneHash: string | null, address: string) {
+  const now = Date.now();
+  const recent = ledger
+    .get()
+    .topUps.filter(
+      (t) =>
+        t.status !== "failed" &&
+        (phoneHash ? t.phoneHash === phoneHash : t.address === address) &&
+        now - Date.parse(t.createdAt) < 24 * 60 * 60 * 1000,
+    );
+
+  const last = recent[recent.length - 1];
+  if (last && now - Date.parse(last.createdAt) < TOPUP_MIN_INTERVAL_MS) {
+    throw new GasError("GAS_TOPUP_RATE_LIMITED", "Gas was topped up recently, try again later", 429, {
+      retryAfterSeconds: Math.ceil((TOPUP_MIN_INTERVAL_MS - (now - Date.parse(last.createdAt))) / 1000),
+    });
+  }
+  if (recent.length >= TOPUP_MAX_PER_DAY) {
+    throw new GasError("GAS_TOPUP_RATE_LIMITED", `At most ${TOPUP_MAX_PER_DAY} gas top-ups per day`, 429);
+  }
+}
+
+async function topUp(address: string, phone: string | undefined, balanceBefore: BigNumber, reason: string) {
+  const phoneHash = phone ? hashPhone(phone) : null;
+  assertTopUpAllowed(phoneHash, address);
+
+  const master = getMasterSigner();
+  const masterBalance = await provider.getBalance(master.address);
+  if (masterBalance.lt(TOPUP_AMOUNT_WEI)) {
+    console.error(`[GasManager] CRITICAL: master wallet has ${utils.formatEther(masterBalance)} MATIC, cannot top up`);
+    throw new GasError("GAS_MASTER_BALANCE_LOW", "Gas sponsorship is temporarily unavailable", 503);
+  }
+
+  const now = new Date().toISOString();
+  const entry: GasTopUp = {
+    id: crypto.randomUUID(),
+    phoneHash,
+    address,
+    amount: utils.formatEther(TOPUP_AMOUNT_WEI),
+    balanceBefore: utils.formatEther(balanceBefore),
+    reason,
+    status: "pending",
+    txHash: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  ledger.update((s) => {
+    s.topUps.push(entry);
+  });
+
+  try {
+    const tx = await sendAndConfirm(master, { to: address, value: TOPUP_AMOUNT_WEI }, { kind: "gas_topup", ...(phone ? { phone } : {}) });
+    patchTopUp(entry.id, { status: "confirmed", txHash: tx.hash });
+    console.log(`[GasManager] Top-up ${utils.formatEther(TOPUP_AMOUNT_WEI)} MATIC → ${address} (${tx.hash})`);
+    emitWebhook("gas.topped_up", { address, amount: entry.amount, balanceBefore: entry.balanceBefore, reason, txHash: tx.hash }, { phone });
+  } catch (error: any) {
+    const txId = trackedTxId(error);
+    if (txId) {
+      // A tx ainda pode confirmar: não libera os limites, senão a próxima ação manda outro top-up
+      patchTopUp(entry.id, { txId, txHash: error.details?.hash ?? null, error: error.message });
+      settleTopUp(entry, txId);
+      throw error;
+    }
+
+    patchTopUp(entry.id, { status: "failed", error: String(error?.message ?? error) });
+    if (error instanceof ExecutorError) throw error;
+    throw new GasError("GAS_TOPUP_FAILED", `Gas top-up failed: ${error?.message ?? error}`, 502);
+  }
+}
+
+// Top-ups em andamento por endereço: ações concorrentes esperam o mesmo top-up
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Make sure `address` has enough MATIC for a tx, topping it up from the master wallet if needed
+ */
+export async function ensureGasForAddress(address: string, opts: { phone?: string; reason: string }): Promise<void> {
+  const pending = inFlight.get(address);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const balance = await provider.getBalance(address);
+    if (balance.gte(TOPUP_THRESHOLD_WEI)) return;
+
+    console.log(`[GasManager] ${address} below threshold (${utils.formatEther(balance)} MATIC), topping up (${opts.reason})`);
+    await topUp(address, opts.phone, balance, opts.reason);
+  })().finally(() => inFlight.delete(address));
+
+  inFlight.set(address, run);
+  return run;
+}
+
+/**
+ * Ensure the user's derived wallet has sufficient MATIC for gas
+ */
+export async function ensureGasBalance(phone: string, reason: string): Promise<void> {
+  const signer = await getThirdwebSigner(phone);
+  await ensureGasForAddress(await signer.getAddress(), { phone, reason });
+}
+
+export function getGasLedger(filters: { phone?: string; limit?: number } = {}) {
+  const phoneHash = filters.phone ? hashPhone(filters.phone) : null;
+  const entries = ledger
+    .get()
+    .topUps.filter((t) => !phoneHash || t.phoneHash === phoneHash)
+    .slice()
+    .reverse();
+
+  const confirmed = entries.filter((t) => t.status === "confirmed");
+  return {
+    total: entries.length,
+    totalMatic: utils.formatEther(confirmed.reduce((sum, t) => sum.add(utils.parseEther(t.amount)), BigNumber.from(0))),
+    topUps: entries.slice(0, filters.limit ?? 100),
+  };
+}
+
+// ============================================================================
+// MASTER WALLET MONITORING
+// ============================================================================
+
+/**
+ * Check master wallet balance and log warning if low
+ */
+export async function checkMasterWalletBalance() {
+  const status = await getMasterWalletStatus();
+
+  console.log(`[GasManager] Master wallet balance: ${status.balance} MATIC (${status.address})`);
+  if (status.low) {
+    console.warn(`⚠️  WARNING: Master wallet balance LOW (< ${status.minBalance} MATIC), please top up ${status.address}`);
+    emitWebhook("master_wallet.low", status);
+  }
+
+  return status;
+}
+
+/**
+ * Master wallet MATIC balance vs GAS_MASTER_MIN_BALANCE_MATIC (no logging)
+ */
+export async function getMasterWalletStatus() {
+  const master = getMasterSigner();
+  const balance = await provider.getBalance(master.address);
+
+  return {
+    address: master.address,
+    balance: utils.formatEther(balance),
+    minBalance: utils.formatEther(MASTER_MIN_BALANCE_WEI),
+    topUpAmount: utils.formatEther(TOPUP_AMOUNT_WEI),
+    low: balance.lt(MASTER_MIN_BALANCE_WEI),
+    // Quantos top-ups o saldo atual ainda cobre
+    topUpsRemaining: balance.div(TOPUP_AMOUNT_WEI).toNumber(),
+  };
+}
+
+/**
+ * Start periodic master wallet balance monitoring (hourly)
+ */
+export function startGasMonitoring(): void {
+  const check = () => checkMasterWalletBalance().catch((e) => console.error("[GasManager] Master balance check failed:", e.message));
+  check();
+  setInterval(check, MONITOR_INTERVAL_MS).unref();
+}
@@ -0,0 +1,165 @@
+/**
+ * Idempotency keys for order submission
+ *
+ * A retried request carrying the same `Idempotency-Key` gets the original result
+ * back instead of placing a second order.
+ * - Same key + same fingerprint → replay stored response
+ * - Same key + different fingerprint → IDEMPOTENCY_KEY_MISMATCH (422)
+ * - Same key while the first call is still running → waits for it (same process)
+ *   or IDEMPOTENCY_KEY_IN_PROGRESS (409) if the owner is gone (e.g. crashed mid-call);
+ *   an orphaned key is taken over once its lease (IDEMPOTENCY_LEASE_SECONDS) runs out
+ * - Same key after a definite failure (a 4xx error: validation, risk, slippage, an order
+ *   the CLOB refused; or `isFailure` flagged the result) → the key is kept as "failed"
+ *   and the retry runs again
+ * - Same key after an ambiguous failure (upstream timeout / unavailable, unknown error:
+ *   the order may be on the CLOB) → the key stays locked as "unknown" and retries get
+ *   IDEMPOTENCY_OUTCOME_UNKNOWN (409) until it expires; check the orders before
+ *   resending with a new key
+ *
+ * Keys are scoped per user and persisted so they survive restarts.
+ */
+
+import crypto from "crypto";
+import { openJsonStore, hashPhone } from "./localStore";
+import { ExecutorError } from "./errors";
+
+export type IdempotencyCode = "IDEMPOTENCY_KEY_MISMATCH" | "IDEMPOTENCY_KEY_IN_PROGRESS" | "IDEMPOTENCY_OUTCOME_UNKNOWN";
+
+const TTL_MS = Number(process.env.IDEMPOTENCY_TTL_HOURS ?? "24") * 60 * 60 * 1000;
+const LEASE_MS = Number(process.env.IDEMPOTENCY_LEASE_SECONDS ?? "60") * 1000;
+
+type IdempotencyRecord = {
+  fingerprint: string;
+  status: "in_progress" | "completed" | "failed" | "unknown";
+  result?: unknown;
+  error?: { code: string | null; message: string } | undefined;
+  attempts?: number | undefined;
+  createdAt: string;
+  startedAt?: string | undefined;
+  completedAt?: string;
+};
+
+const store = openJsonStore<Record<string, IdempotencyRecord>>("idempotency.json", () => ({}));
+
+// Chamadas em andamento neste processo: chave → promise do resultado
+const inFlight = new Map<string, Promise<unknown>>();
+
+export class IdempotencyError extends ExecutorError {
+  constructor(code: IdempotencyCode, status: number, message: string, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "IdempotencyError";
+  }
+}
+
+function fingerprintOf(payload: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+// Recusa explícita (nossa ou do upstream): nada foi executado, a chave pode rodar de novo.
+// Rate limit e auth recusada do CLOB também não chegam a criar ordem.
+function isDefiniteFailure(error: unknown): boolean {
+  if (!(error instanceof ExecutorError)) return false;
+  return error.status < 500 || error.code === "UPSTREAM_RATE_LIMITED" || error.code === "UPSTREAM_AUTH";
+}
+
+function pruneExpired() {
+  const now = Date.now();
+  const expired = Object.entries(store.get()).filter(
+    ([, r]) => now - Date.parse(r.createdAt) > TTL_MS,
+  );
+  if (expired.length === 0) return;
+
+  store.update((s) => {
+    for (const [k] of expired) delete s[k];
+  });
+}
+
+/**
+ * Run `fn` at most once per (phone, key) until it succeeds or fails ambiguously.
+ * Without a key, `fn` runs normally (no idempotency).
+ */
+export async function withIdempotency<T>(
+  key: string | undefined,
+  phone: string,
+  payload: unknown,
+  fn: () => Promise<T>,
+  options: { isFailure?: (result: T) => boolean } = {},
+): Promise<{ result: T; replayed: boolean }> {
+  if (!key) return { result: await fn(), replayed: false };
+
+  pruneExpired();
+
+  const storeKey = `${hashPhone(phone)}:${key}`;
+  const fingerprint = fingerprintOf(payload);
+  const existing = store.get()[storeKey];
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyError(
+        "IDEMPOTENCY_KEY_MISMATCH",
+        422,
+        "Idempotency-Key was already used with a different request body",
+      );
+    }
+
+    if (existing.status === "completed") {
+      return { result: existing.result as T, replayed: true };
+    }
+
+    if (existing.status === "unknown") {
+      throw new IdempotencyError(
+        "IDEMPOTENCY_OUTCOME_UNKNOWN",
+        409,
+        "The request with this Idempotency-Key failed after reaching upstream and may have been executed; check the order history and positions before resending with a new key",
+        { error: existing.error },
+      );
+    }
+
+    if (existing.status === "in_progress") {
+      const running = inFlight.get(storeKey);
+      if (running) return { result: (await running) as T, replayed: true };
+
+      // Dono sumiu (crash no meio da chamada): só assume a chave depois do lease
+      const startedAt = Date.parse(existing.startedAt ?? existing.createdAt);
+      if (Date.now() - startedAt < LEASE_MS) {
+        throw new IdempotencyError(
+          "IDEMPOTENCY_KEY_IN_PROGRESS",
+          409,
+          "A request with this Idempotency-Key is still being processed",
+        );
+      }
+    }
+  }
+
+  const now = new Date().toISOString();
+  store.update((s) => {
+    s[storeKey] = {
+      fingerprint,
+      status: "in_progress",
+      attempts: existing ? (existing.attempts ?? 1) + 1 : 1,
+      createdAt: existing?.createdAt ?? now,
+      startedAt: now,
+    };
+  });
+
+  const promise = fn();
+  inFlight.set(storeKey, promise);
+
+  const finish = (status: "completed" | "failed" | "unknown", outcome: Pick<IdempotencyRecord, "result" | "error">) =>
+    store.update((s) => {
+      s[storeKey] = { ...s[storeKey]!, ...outcome, status, completedAt: new Date().toISOString() };
+    });
+
+  try {
+    const result = await promise;
+    finish(options.isFailure?.(result) ? "failed" : "completed", { result });
+    return { result, replayed: false };
+  } catch (error: any) {
+    finish(isDefiniteFailure(error) ? "failed" : "unknown", {
+      error: { code: error instanceof ExecutorError ? error.code : null, message: String(error?.message ?? error) },
+    });
+    throw error;
+  } finally {
+    inFlight.delete(storeKey);
+  }
+}
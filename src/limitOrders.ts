@@ -0,0 +1,101 @@
+/**
+ * Limit order placement (GTC / GTD)
+ * Single path shared by POST /orders/limit and the execution algorithms (iceberg):
+ * ledger, risk checks, CLOB post and notional accounting.
+ */
+
+import { z } from "zod";
+import { getL2Client, getPolymarketAddress, Side, OrderType } from "./polymarketClob";
+import { checkOrder } from "./riskEngine";
+import { withLedger } from "./tradeLedger";
+import { watchFills } from "./fillTracker";
+import { getOrderOptions } from "./negRisk";
+import { ValidationError } from "./errors";
+
+export const limitOrderSchema = z
+  .object({
+    tokenId: z.string().min(1),
+    side: z.enum(["BUY", "SELL"]),
+    price: z.number().gt(0).lt(1),
+    size: z.number().positive(),
+    orderType: z.enum(["GTC", "GTD"]).default("GTC"),
+    // Unix timestamp (seconds). Obrigatório para GTD.
+    expiration: z.number().int().positive().optional(),
+    postOnly: z.boolean().optional(),
+  })
+  .refine((b) => b.orderType !== "GTD" || b.expiration !== undefined, {
+    message: "expiration is required for GTD orders",
+    path: ["expiration"],
+  })
+  .refine((b) => b.expiration === undefined || b.expiration > Math.floor(Date.now() / 1000) + 60, {
+    // CLOB exige pelo menos 1 minuto de margem de segurança
+    message: "expiration must be at least 60 seconds in the future",
+    path: ["expiration"],
+  });
+
+export type LimitOrderRequest = z.infer<typeof limitOrderSchema>;
+
+// clob-client arredonda em silêncio pro tick; melhor recusar um preço que o usuário não pediu
+function assertPriceOnTick(price: number, tickSize: string) {
+  const tick = Number(tickSize);
+  const steps = price / tick;
+  if (price < tick || price > 1 - tick || Math.abs(steps - Math.round(steps)) > 1e-6) {
+    throw new ValidationError("INVALID_PRICE_TICK", `Price ${price} must be a multiple of the market tick size ${tickSize} (between ${tick} and ${1 - tick})`, {
+      tickSize,
+    });
+  }
+}
+
+/**
+ * Post a resting limit order for the user, recorded in the trade ledger.
+ * `context` is merged into the ledger request (e.g. execution id / child index).
+ */
+export async function executeLimitOrder(
+  phone: string,
+  order: LimitOrderRequest,
+  context: Record<string, unknown> = {},
+): Promise<any> {
+  const address = await getPolymarketAddress(phone);
+
+  const posted = await withLedger(
+    {
+      phone,
+      address,
+      kind: "limit",
+      tokenId: order.tokenId,
+      side: order.side,
+      request: { ...order, ...context },
+    },
+    async (run) => {
+      run.onFailure(checkOrder(phone, { tokenId: order.tokenId, side: order.side, notional: order.price * order.size }).release);
+
+      const client = await getL2Client(phone);
+
+      // Neg-risk: ordem assinada pro exchange neg-risk; preço tem que cair no tick do market
+      const options = await getOrderOptions(client, order.tokenId);
+      assertPriceOnTick(order.price, options.tickSize);
+
+      const posted = await client.createAndPostOrder(
+        {
+          tokenID: order.tokenId,
+          side: order.side === "BUY" ? Side.BUY : Side.SELL,
+          price: order.price,
+          size: order.size,
+          ...(order.orderType === "GTD" && order.expiration !== undefined ? { expiration: order.expiration } : {}),
+        },
+        options,
+        order.orderType === "GTD" ? OrderType.GTD : OrderType.GTC,
+        false, // deferExec
+        order.postOnly ?? false,
+      );
+
+      return posted;
+    },
+  );
+
+  // Ordem descansando no book: fills posteriores chegam pelo user channel
+  const status = String(posted?.status ?? "").toLowerCase();
+  if (status === "live" || status === "delayed") watchFills(phone, address);
+
+  return posted;
+}
@@ -0,0 +1,130 @@
+/**
+ * Local persistence
+ * Small JSON-file stores for state that must survive a process restart
+ * (idempotency keys, ledgers, cursors...).
+ *
+ * - One file per store under EXECUTOR_DATA_DIR (default ./data)
+ * - Whole state kept in memory, written atomically (tmp file + rename) on every update
+ * - Growing stores (ledgers, txs, webhooks, deposits) pass a `compact` hook that moves
+ *   finished records older than STORE_RETENTION_DAYS to an append-only archive
+ *   (<store>.archive.ndjson), so the live file stays small
+ * - Single-process only: the executor runs as one instance
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+const DATA_DIR = path.resolve((process.env.EXECUTOR_DATA_DIR || "").trim() || "./data");
+const RETENTION_MS = Number(process.env.STORE_RETENTION_DAYS ?? "90") * 24 * 60 * 60 * 1000;
+const COMPACT_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface JsonStore<T> {
+  /** Current in-memory state (do not mutate outside update) */
+  get(): T;
+  /** Mutate state and persist it to disk */
+  update<R>(mutator: (state: T) => R): R;
+}
+
+export type StoreOptions<T> = {
+  /**
+   * Drop old records from the state (archive them with archiveRecords first).
+   * Gets the retention cutoff (ms); runs on open and at most hourly on update.
+   */
+  compact?: (state: T, cutoffMs: number) => void;
+};
+
+export function openJsonStore<T>(fileName: string, initial: () => T, options: StoreOptions<T> = {}): JsonStore<T> {
+  const file = path.join(DATA_DIR, fileName);
+  let state: T;
+
+  try {
+    state = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as T) : initial();
+  } catch (error: any) {
+    // Arquivo corrompido: não sobrescreve silenciosamente, melhor falhar no boot
+    throw new Error(`Failed to load local store ${file}: ${error.message}`);
+  }
+
+  const persist = () => {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state));
+    fs.renameSync(tmp, file);
+  };
+
+  let compactedAt = 0;
+  const compact = () => {
+    if (!options.compact) return;
+    compactedAt = Date.now();
+    options.compact(state, compactedAt - RETENTION_MS);
+  };
+
+  if (options.compact && fs.existsSync(file)) {
+    compact();
+    persist();
+  }
+
+  return {
+    get: () => state,
+    update(mutator) {
+      const result = mutator(state);
+      if (Date.now() - compactedAt > COMPACT_INTERVAL_MS) compact();
+      persist();
+      return result;
+    },
+  };
+}
+
+/**
+ * Append records removed from a store to EXECUTOR_DATA_DIR/<fileName>.archive.ndjson
+ * (one JSON per line, never rewritten)
+ */
+export function archiveRecords(fileName: string, records: unknown[]): void {
+  if (records.length === 0) return;
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.appendFileSync(path.join(DATA_DIR, `${fileName}.archive.ndjson`), records.map((r) => JSON.stringify(r) + "\n").join(""));
+}
+
+/**
+ * Stable, non-reversible user id for persisted records
+ * (phones never land on disk in plain text)
+ */
+export function hashPhone(phone: string): string {
+  return crypto.createHash("sha256").update(phone).digest("hex");
+}
+
+// ============================================================================
+// ENCRYPTION AT REST
+// ============================================================================
+
+export type SealedSecret = { iv: string; tag: string; data: string };
+
+// Chave: EXECUTOR_ENCRYPTION_KEY, ou derivada da master key (sem ela nada é derivável mesmo)
+function encryptionKey(): Buffer {
+  const secret = (process.env.EXECUTOR_ENCRYPTION_KEY || "").trim() || (process.env.POLYMARKET_PRIVATE_KEY || "").trim();
+  if (!secret) throw new Error("Missing EXECUTOR_ENCRYPTION_KEY (or POLYMARKET_PRIVATE_KEY) for encrypted store");
+  return crypto.createHash("sha256").update(`executor-store:${secret}`).digest();
+}
+
+/**
+ * AES-256-GCM seal for secrets persisted in a JsonStore
+ */
+export function sealSecret(plaintext: string): SealedSecret {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+/**
+ * Returns null when the secret can't be opened (rotated key, tampered file)
+ */
+export function openSecret(sealed: SealedSecret): string | null {
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(sealed.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
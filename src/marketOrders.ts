@@ -0,0 +1,93 @@
+/**
+ * Market order execution (FAK)
+ * Single path shared by POST /orders/market and everything that sends market
+ * orders on the user's behalf (batches...): ledger, risk checks, optional
+ * slippage guard, CLOB post and notional accounting.
+ */
+
+import { z } from "zod";
+import { getL2Client, getPolymarketAddress, Side, OrderType } from "./polymarketClob";
+import { checkOrder } from "./riskEngine";
+import { quoteFromBook, assertWithinSlippage } from "./orderQuote";
+import { withLedger } from "./tradeLedger";
+import { getOrderOptions } from "./negRisk";
+
+export const marketOrderSchema = z
+  .object({
+    tokenId: z.string().min(1),
+    side: z.enum(["BUY", "SELL"]),
+    amount: z.number().positive(),
+    // Slippage guard (opcional): recusa o FAK se o book atual violar o limite
+    maxPrice: z.number().gt(0).lt(1).optional(), // BUY
+    minPrice: z.number().gt(0).lt(1).optional(), // SELL
+    maxSlippageBps: z.number().nonnegative().optional(),
+  })
+  .refine((b) => b.maxPrice === undefined || b.side === "BUY", {
+    message: "maxPrice only applies to BUY orders",
+    path: ["maxPrice"],
+  })
+  .refine((b) => b.minPrice === undefined || b.side === "SELL", {
+    message: "minPrice only applies to SELL orders",
+    path: ["minPrice"],
+  });
+
+export type MarketOrderRequest = z.infer<typeof marketOrderSchema>;
+
+/**
+ * Post a FAK market order for the user, recorded in the trade ledger.
+ * `context` is merged into the ledger request (e.g. batch id / leg index).
+ * `reduceOnly` (batch unwinds): SELL of at most `heldShares` (the caller's recorded fill,
+ * not a balance read that may lag settlement), exempt from the kill switch, the per-order
+ * and daily caps and the rate limit.
+ */
+export async function executeMarketOrder(
+  phone: string,
+  order: MarketOrderRequest,
+  context: Record<string, unknown> = {},
+  { reduceOnly }: { reduceOnly?: { heldShares: number } | undefined } = {},
+): Promise<any> {
+  return withLedger(
+    {
+      phone,
+      address: await getPolymarketAddress(phone),
+      kind: "market",
+      tokenId: order.tokenId,
+      side: order.side,
+      request: { ...order, ...context },
+    },
+    async (run) => {
+      const position = reduceOnly ? { heldShares: reduceOnly.heldShares, shares: order.amount } : undefined;
+
+      // BUY: amount é USDC; SELL: amount é shares (cada share vale no máximo 1 USDC)
+      run.onFailure(checkOrder(phone, { tokenId: order.tokenId, side: order.side, notional: order.amount, reduceOnly: position }).release);
+
+      const client = await getL2Client(phone);
+
+      const priceLimit = order.side === "BUY" ? order.maxPrice : order.minPrice;
+      if (priceLimit !== undefined || order.maxSlippageBps !== undefined) {
+        const book = await client.getOrderBook(order.tokenId);
+        assertWithinSlippage(quoteFromBook(book, order.side, order.amount), order);
+      }
+
+      // Neg-risk: ordem assinada pro exchange neg-risk, com o tick do market
+      const options = await getOrderOptions(client, order.tokenId);
+
+      // BUG-38 FIX: Use FAK (Fill and Kill) instead of FOK (Fill or Kill).
+      // FOK rejects the entire order if orderbook can't fill 100%.
+      // FAK fills what's available and cancels the rest — better for thin liquidity markets.
+      const posted = await client.createAndPostMarketOrder(
+        {
+          tokenID: order.tokenId,
+          side: order.side === "BUY" ? Side.BUY : Side.SELL,
+          amount: order.amount,
+          // Com limite de preço explícito o próprio CLOB também respeita o pior preço
+          ...(priceLimit !== undefined ? { price: priceLimit } : {}),
+        },
+        options,
+        OrderType.FAK,
+      );
+
+      return posted;
+    },
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Real-time streaming of orderbooks and user order events
+ *
+ * Upstream (Polymarket CLOB WebSocket) is multiplexed:
+ * - Market channel: ONE socket for every token any downstream client watches.
+ *   Each token keeps a local book; new subscribers get the current snapshot,
+ *   then incremental price-level updates.
+ * - User channel: one socket per user (phone), shared by all of that user's streams.
+ *
+ * Paper mode: books are polled from the simulated CLOB and diffed; user events come
+ * from the simulated client. Downstream sees the same events either way.
+ */
+
+import WebSocket from "ws";
+import { EventEmitter } from "events";
+import { getApiCreds } from "./polymarketClob";
+import { PAPER_MODE, PaperClobClient, paperEvents } from "./paperClob";
+
+const WS_HOST = (process.env.POLYMARKET_WS_HOST || "").trim() || "wss://ws-subscriptions-clob.polymarket.com";
+const PING_INTERVAL_MS = 10_000;
+const RECONNECT_MAX_MS = 30_000;
+const PAPER_POLL_MS = Number(process.env.PAPER_STREAM_POLL_MS ?? "2000");
+
+export type BookLevel = { price: string; size: string };
+
+export type BookEvent =
+  | { type: "book"; data: { tokenId: string; bids: BookLevel[]; asks: BookLevel[]; timestamp: string } }
+  | { type: "price_change"; data: { tokenId: string; side: "BUY" | "SELL"; price: string; size: string; timestamp: string } };
+
+export type UserEvent = { type: "order" | "trade"; data: any };
+
+// ============================================================================
+// MARKET CHANNEL
+// ============================================================================
+
+type LocalBook = { bids: Map<string, string>; asks: Map<string, string>; ready: boolean };
+
+const books = new Map<string, LocalBook>();
+const bookEmitter = new EventEmitter();
+bookEmitter.setMaxListeners(0);
+
+function snapshotOf(tokenId: string, book: LocalBook): BookEvent {
+  const levels = (m: Map<string, string>) => Array.from(m, ([price, size]) => ({ price, size }));
+  return {
+    type: "book",
+    data: {
+      tokenId,
+      bids: levels(book.bids).sort((a, b) => Number(b.price) - Number(a.price)),
+      asks: levels(book.asks).sort((a, b) => Number(a.price) - Number(b.price)),
+      timestamp: String(Date.now()),
+    },
+  };
+}
+
+function applySnapshot(tokenId: string, bids: BookLevel[], asks: BookLevel[]) {
+  const book = books.get(tokenId);
+  if (!book) return;
+
+  book.bids = new Map(bids.map((l) => [l.price, l.size]));
+  book.asks = new Map(asks.map((l) => [l.price, l.size]));
+  book.ready = true;
+  bookEmitter.emit(tokenId, snapshotOf(tokenId, book));
+}
+
+function applyLevel(tokenId: string, side: "BUY" | "SELL", price: string, size: string, timestamp: string) {
+  const book = books.get(tokenId);
+  if (!book || !book.ready) return;
+
+  const levels = side === "BUY" ? book.bids : book.asks;
+  if (Number(size) === 0) levels.delete(price);
+  else levels.set(price, size);
+
+  bookEmitter.emit(tokenId, { type: "price_change", data: { tokenId, side, price, size, timestamp } });
+}
+
+function handleMarketMessage(msg: any) {
+  const timestamp = String(msg.timestamp ?? Date.now());
+
+  switch (msg.event_type) {
+    case "book":
+      applySnapshot(String(msg.asset_id), msg.bids ?? msg.buys ?? [], msg.asks ?? msg.sells ?? []);
+      break;
+    case "price_change":
+      // Formato novo: price_changes[] com asset_id por item; antigo: changes[] + asset_id no topo
+      for (const c of msg.price_changes ?? []) {
+        applyLevel(String(c.asset_id), c.side, String(c.price), String(c.size), timestamp);
+      }
+      for (const c of msg.changes ?? []) {
+        applyLevel(String(msg.asset_id), c.side, String(c.price), String(c.size), timestamp);
+      }
+      break;
+  }
+}
+
+let marketSocket: WebSocket | null = null;
+let marketReconnectDelay = 1000;
+let resubscribeTimer: NodeJS.Timeout | null = null;
+let paperPoller: NodeJS.Timeout | null = null;
+
+function connectMarketSocket() {
+  const assetIds = Array.from(books.keys());
+  if (assetIds.length === 0) return;
+
+  const ws = new WebSocket(`${WS_HOST}/ws/market`);
+  marketSocket = ws;
+  let ping: NodeJS.Timeout | null = null;
+
+  ws.on("open", () => {
+    marketReconnectDelay = 1000;
+    ws.send(JSON.stringify({ assets_ids: assetIds, type: "market" }));
+    ping = setInterval(() => ws.readyState === WebSocket.OPEN && ws.send("PING"), PING_INTERVAL_MS);
+    console.log(`[Stream] Market socket subscribed to ${assetIds.length} token(s)`);
+  });
+
+  ws.on("message", (raw) => {
+    const text = raw.toString();
+    if (text === "PONG") return;
+    try {
+      const parsed = JSON.parse(text);
+      for (const msg of Array.isArray(parsed) ? parsed : [parsed]) handleMarketMessage(msg);
+    } catch {
+      // mensagens não-JSON são ignoradas
+    }
+  });
+
+  ws.on("close", () => {
+    if (ping) clearInterval(ping);
+    if (marketSocket !== ws) return; // substituído por resubscribe
+    marketSocket = null;
+    if (books.size === 0) return;
+
+    console.warn(`[Stream] Market socket closed, reconnecting in ${marketReconnectDelay}ms`);
+    setTimeout(connectMarketSocket, marketReconnectDelay);
+    marketReconnectDelay = Math.min(marketReconnectDelay * 2, RECONNECT_MAX_MS);
+  });
+
+  ws.on("error", (error) => console.error("[Stream] Market socket error:", error.message));
+}
+
+async function pollPaperBooks() {
+  const client = new PaperClobClient("");
+  for (const [tokenId, book] of books) {
+    const snapshot = await client.getOrderBook(tokenId);
+    if (!book.ready) {
+      applySnapshot(tokenId, snapshot.bids, snapshot.asks);
+      continue;
+    }
+
+    // Diff contra o book local → price_change por nível alterado
+    for (const [side, next, current] of [
+      ["BUY", snapshot.bids, book.bids],
+      ["SELL", snapshot.asks, book.asks],
+    ] as const) {
+      const nextMap = new Map(next.map((l) => [l.price, l.size]));
+      for (const [price, size] of nextMap) {
+        if (current.get(price) !== size) applyLevel(tokenId, side, price, size, snapshot.timestamp);
+      }
+      for (const price of Array.from(current.keys())) {
+        if (!nextMap.has(price)) applyLevel(tokenId, side, price, "0", snapshot.timestamp);
+      }
+    }
+  }
+}
+
+// O set de tokens mudou: reconecta o socket único com a lista nova (debounced)
+function scheduleResubscribe() {
+  if (PAPER_MODE) {
+    if (books.size > 0 && !paperPoller) {
+      paperPoller = setInterval(() => pollPaperBooks().catch((e) => console.error("[Stream] Paper poll failed:", e)), PAPER_POLL_MS);
+      pollPaperBooks().catch((e) => console.error("[Stream] Paper poll failed:", e));
+    } else if (books.size === 0 && paperPoller) {
+      clearInterval(paperPoller);
+      paperPoller = null;
+    } else if (paperPoller) {
+      pollPaperBooks().catch((e) => console.error("[Stream] Paper poll failed:", e));
+    }
+    return;
+  }
+
+  if (resubscribeTimer) clearTimeout(resubscribeTimer);
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = null;
+    const previous = marketSocket;
+    marketSocket = null;
+    previous?.close();
+    connectMarketSocket();
+  }, 250);
+}
+
+/**
+ * Subscribe to a token's book. Listener gets the snapshot (immediately if the feed
+ * is already warm), then incremental updates. Returns the unsubscribe function.
+ */
+export function subscribeBook(tokenId: string, listener: (event: BookEvent) => void): () => void {
+  let book = books.get(tokenId);
+  const isNew = !book;
+
+  if (!book) {
+    book = { bids: new Map(), asks: new Map(), ready: false };
+    books.set(tokenId, book);
+  }
+
+  bookEmitter.on(tokenId, listener);
+  if (book.ready) listener(snapshotOf(tokenId, book));
+  if (isNew) scheduleResubscribe();
+
+  return () => {
+    bookEmitter.off(tokenId, listener);
+    if (bookEmitter.listenerCount(tokenId) === 0) {
+      books.delete(tokenId);
+      scheduleResubscribe();
+    }
+  };
+}
+
+/**
+ * Best bid / ask of a token from the local book (null until the feed has a snapshot)
+ */
+export function getTopOfBook(tokenId: string): { bestBid: number | null; bestAsk: number | null } | null {
+  const book = books.get(tokenId);
+  if (!book || !book.ready) return null;
+
+  const prices = (m: Map<string, string>) => Array.from(m.keys(), Number);
+  return {
+    bestBid: book.bids.size > 0 ? Math.max(...prices(book.bids)) : null,
+    bestAsk: book.asks.size > 0 ? Math.min(...prices(book.asks)) : null,
+  };
+}
+
+// ============================================================================
+// USER CHANNEL
+// ============================================================================
+
+type UserFeed = { emitter: EventEmitter; close: () => void };
+
+const userFeeds = new Map<string, UserFeed>();
+
+function openUserSocket(phone: string, emitter: EventEmitter): () => void {
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let delay = 1000;
+
+  const connect = async () => {
+    const creds = await getApiCreds(phone);
+    if (closed) return;
+
+    const socket = new WebSocket(`${WS_HOST}/ws/user`);
+    ws = socket;
+    let ping: NodeJS.Timeout | null = null;
+
+    socket.on("open", () => {
+      delay = 1000;
+      socket.send(
+        JSON.stringify({
+          auth: { apiKey: creds.key, secret: creds.secret, passphrase: creds.passphrase },
+          markets: [],
+          type: "user",
+        }),
+      );
+      ping = setInterval(() => socket.readyState === WebSocket.OPEN && socket.send("PING"), PING_INTERVAL_MS);
+    });
+
+    socket.on("message", (raw) => {
+      const text = raw.toString();
+      if (text === "PONG") return;
+      try {
+        const parsed = JSON.parse(text);
+        for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+          if (msg.event_type === "order" || msg.event_type === "trade") {
+            emitter.emit("event", { type: msg.event_type, data: msg } satisfies UserEvent);
+          }
+        }
+      } catch {
+        // ignora
+      }
+    });
+
+    socket.on("close", () => {
+      if (ping) clearInterval(ping);
+      if (closed) return;
+      setTimeout(() => connect().catch(onConnectError), delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    });
+
+    socket.on("error", (error) => console.error(`[Stream] User socket error (${phone.slice(-4)}):`, error.message));
+  };
+
+  const onConnectError = (error: any) => {
+    console.error(`[Stream] User socket connect failed (${phone.slice(-4)}):`, error.message);
+    if (!closed) setTimeout(() => connect().catch(onConnectError), delay);
+    delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+  };
+
+  connect().catch(onConnectError);
+
+  return () => {
+    closed = true;
+    ws?.close();
+  };
+}
+
+/**
+ * Subscribe to the user's own order status changes and fills.
+ * `address` is the user's derived address (used in paper mode).
+ */
+export function subscribeUser(phone: string, address: string, listener: (event: UserEvent) => void): () => void {
+  let feed = userFeeds.get(phone);
+
+  if (!feed) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+
+    let close: () => void;
+    if (PAPER_MODE) {
+      const forward = (owner: string, event: UserEvent) => owner === address && emitter.emit("event", event);
+      paperEvents.on("user", forward);
+      close = () => paperEvents.off("user", forward);
+    } else {
+      close = openUserSocket(phone, emitter);
+    }
+
+    feed = { emitter, close };
+    userFeeds.set(phone, feed);
+  }
+
+  const current = feed;
+  current.emitter.on("event", listener);
+
+  return () => {
+    current.emitter.off("event", listener);
+    if (current.emitter.listenerCount("event") === 0) {
+      current.close();
+      userFeeds.delete(phone);
+    }
+  };
+}
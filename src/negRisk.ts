@@ -0,0 +1,138 @@
+/**
+ * Neg-risk (multi-outcome) markets
+ * Events with mutually exclusive outcomes ("who wins X?") trade on the neg-risk exchange
+ * and settle through the NegRiskAdapter instead of the binary exchange.
+ *
+ * - getOrderOptions: tick size + neg-risk flag of a token, read from the CLOB book (Gamma
+ *   as fallback) and cached; the clob-client needs them to sign the order for the right
+ *   exchange and round it to the right tick
+ * - convertNoPositions: NO shares of k questions of the same neg-risk market become
+ *   (k - 1) USDC per share plus YES shares of every other question, through the adapter
+ */
+
+import { BigNumber, utils } from "ethers";
+import type { ClobClient, CreateOrderOptions, TickSize } from "@polymarket/clob-client";
+import { gammaTokenInfo, type GammaTokenInfo } from "./polymarketGamma";
+import { getPolymarketAddress } from "./polymarketClob";
+import { getCtfBalances, convertNegRiskPositions } from "./polymarketOnchain";
+import { PAPER_MODE } from "./paperClob";
+import { ExecutorError } from "./errors";
+
+// Tick size muda perto de 0/1, então o cache expira
+const OPTIONS_TTL_MS = 5 * 60 * 1000;
+const TICK_SIZES: TickSize[] = ["0.1", "0.01", "0.001", "0.0001"];
+
+export type NegRiskCode =
+  | "NEG_RISK_TOKEN_NOT_FOUND"
+  | "NEG_RISK_NOT_NEG_RISK_MARKET"
+  | "NEG_RISK_NOT_NO_TOKEN"
+  | "NEG_RISK_MIXED_MARKETS"
+  | "NEG_RISK_INSUFFICIENT_POSITION"
+  | "NEG_RISK_UNAVAILABLE_IN_PAPER_MODE";
+
+export class NegRiskError extends ExecutorError {
+  constructor(code: NegRiskCode, message: string, status = 422, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "NegRiskError";
+  }
+}
+
+// ============================================================================
+// ORDER OPTIONS
+// ============================================================================
+
+const optionsCache = new Map<string, { options: CreateOrderOptions; expiresAt: number }>();
+
+function asTickSize(raw: unknown): TickSize | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  return TICK_SIZES.find((t) => Number(t) === Number(raw)) ?? null;
+}
+
+/**
+ * `{ tickSize, negRisk }` for orders on `tokenId`
+ */
+export async function getOrderOptions(client: ClobClient, tokenId: string): Promise<CreateOrderOptions> {
+  const cached = optionsCache.get(tokenId);
+  if (cached && cached.expiresAt > Date.now()) return cached.options;
+
+  let options: CreateOrderOptions;
+  try {
+    const book = await client.getOrderBook(tokenId);
+    options = { tickSize: asTickSize(book.tick_size) ?? "0.01", negRisk: Boolean(book.neg_risk) };
+  } catch (error) {
+    // CLOB falhou: Gamma também sabe (negRisk / orderPriceMinTickSize)
+    const info = await gammaTokenInfo([tokenId]).catch(() => ({}) as Record<string, GammaTokenInfo>);
+    const token = info[tokenId];
+    if (!token) throw error;
+    options = { tickSize: asTickSize(token.tickSize) ?? "0.01", negRisk: token.negRisk };
+  }
+
+  optionsCache.set(tokenId, { options, expiresAt: Date.now() + OPTIONS_TTL_MS });
+  return options;
+}
+
+// ============================================================================
+// NO → YES + USDC CONVERSION
+// ============================================================================
+
+// questionID = marketId do adapter com o índice da question no último byte
+function questionIndex(questionId: string): number {
+  return parseInt(questionId.slice(-2), 16);
+}
+
+/**
+ * Convert `amount` NO shares of each token in `tokenIds` (all NO tokens of the same
+ * neg-risk market) through the NegRiskAdapter.
+ */
+export async function convertNoPositions(phone: string, req: { tokenIds: string[]; amount: number }) {
+  const tokenIds = Array.from(new Set(req.tokenIds));
+  const info = await gammaTokenInfo(tokenIds);
+
+  const questions = tokenIds.map((tokenId) => {
+    const token = info[tokenId];
+    if (!token) throw new NegRiskError("NEG_RISK_TOKEN_NOT_FOUND", `Token ${tokenId} not found`, 404);
+    if (!token.negRisk || !token.negRiskMarketId || !token.questionId) {
+      throw new NegRiskError("NEG_RISK_NOT_NEG_RISK_MARKET", `Token ${tokenId} is not from a neg-risk market`);
+    }
+    if (token.outcome?.toLowerCase() !== "no") {
+      throw new NegRiskError("NEG_RISK_NOT_NO_TOKEN", `Token ${tokenId} is the ${token.outcome ?? "?"} outcome, only NO can be converted`);
+    }
+    return { ...token, negRiskMarketId: token.negRiskMarketId, questionId: token.questionId };
+  });
+
+  const marketIds = new Set(questions.map((q) => q.negRiskMarketId));
+  if (marketIds.size > 1) {
+    throw new NegRiskError("NEG_RISK_MIXED_MARKETS", "All tokens must belong to the same neg-risk market", 422, {
+      negRiskMarketIds: Array.from(marketIds),
+    });
+  }
+  const negRiskMarketId = questions[0]!.negRiskMarketId;
+
+  const indexSet = questions.reduce((set, q) => set.or(BigNumber.from(1).shl(questionIndex(q.questionId))), BigNumber.from(0));
+  const amount = utils.parseUnits(req.amount.toFixed(6), 6);
+
+  const address = await getPolymarketAddress(phone);
+  const balances = await getCtfBalances(address, tokenIds);
+  const short = tokenIds.filter((id) => (balances[id] ?? BigNumber.from(0)).lt(amount));
+  if (short.length > 0) {
+    throw new NegRiskError("NEG_RISK_INSUFFICIENT_POSITION", `Not enough NO shares to convert ${req.amount}`, 422, {
+      held: Object.fromEntries(short.map((id) => [id, utils.formatUnits(balances[id] ?? 0, 6)])),
+    });
+  }
+
+  if (PAPER_MODE) {
+    throw new NegRiskError("NEG_RISK_UNAVAILABLE_IN_PAPER_MODE", "Converting neg-risk positions needs a real chain", 409);
+  }
+
+  const result = await convertNegRiskPositions(phone, negRiskMarketId, indexSet, amount);
+
+  return {
+    negRiskMarketId,
+    indexSet: indexSet.toString(),
+    amount: utils.formatUnits(amount, 6),
+    questions: questions.map((q) => ({ tokenId: q.tokenId, questionId: q.questionId, question: q.question })),
+    // Sem taxa do adapter: (k - 1) USDC por share convertida
+    usdcExpected: utils.formatUnits(amount.mul(questions.length - 1), 6),
+    ...result,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Order quote / price-impact preview
+ * Walks the CLOB orderbook to estimate how a market order would fill.
+ *
+ * - BUY: amount is USDC, consumes asks from the lowest price up
+ * - SELL: amount is shares, consumes bids from the highest price down
+ */
+
+import type { OrderBookSummary } from "@polymarket/clob-client";
+import { ExecutorError } from "./errors";
+
+export type OrderQuote = {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  amount: number;
+  avgPrice: number | null;
+  worstPrice: number | null;
+  bestPrice: number | null;
+  midpoint: number | null;
+  shares: number; // shares recebidas (BUY) ou vendidas (SELL)
+  usdc: number; // USDC gasto (BUY) ou recebido (SELL)
+  fillableFraction: number; // 0..1 da amount que o book consegue absorver
+  slippageBps: number | null; // avgPrice vs midpoint, positivo = pior que o mid
+  levelsConsumed: number;
+};
+
+type Level = { price: number; size: number };
+
+function parseLevels(levels: { price: string; size: string }[] | undefined): Level[] {
+  return (levels || [])
+    .map((l) => ({ price: Number(l.price), size: Number(l.size) }))
+    .filter((l) => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0);
+}
+
+export function quoteFromBook(
+  book: Pick<OrderBookSummary, "asset_id" | "bids" | "asks">,
+  side: "BUY" | "SELL",
+  amount: number,
+): OrderQuote {
+  // Não confia na ordenação da API: melhor preço primeiro
+  const asks = parseLevels(book.asks).sort((a, b) => a.price - b.price);
+  const bids = parseLevels(book.bids).sort((a, b) => b.price - a.price);
+
+  const bestAsk = asks[0]?.price;
+  const bestBid = bids[0]?.price;
+  const midpoint = bestAsk !== undefined && bestBid !== undefined ? (bestAsk + bestBid) / 2 : null;
+
+  let remaining = amount;
+  let shares = 0;
+  let usdc = 0;
+  let worstPrice: number | null = null;
+  let levelsConsumed = 0;
+
+  for (const level of side === "BUY" ? asks : bids) {
+    if (remaining <= 0) break;
+
+    if (side === "BUY") {
+      const levelCost = level.price * level.size;
+      const spend = Math.min(remaining, levelCost);
+      shares += spend / level.price;
+      usdc += spend;
+      remaining -= spend;
+    } else {
+      const sell = Math.min(remaining, level.size);
+      shares += sell;
+      usdc += sell * level.price;
+      remaining -= sell;
+    }
+
+    worstPrice = level.price;
+    levelsConsumed++;
+  }
+
+  const avgPrice = shares > 0 ? usdc / shares : null;
+  const slippageBps =
+    avgPrice !== null && midpoint
+      ? ((side === "BUY" ? avgPrice - midpoint : midpoint - avgPrice) / midpoint) * 10_000
+      : null;
+
+  return {
+    tokenId: book.asset_id,
+    side,
+    amount,
+    avgPrice,
+    worstPrice,
+    bestPrice: (side === "BUY" ? bestAsk : bestBid) ?? null,
+    midpoint,
+    shares,
+    usdc,
+    fillableFraction: amount > 0 ? Math.max(0, Math.min(1, (amount - Math.max(remaining, 0)) / amount)) : 0,
+    slippageBps,
+    levelsConsumed,
+  };
+}
+
+export type SlippageGuard = {
+  maxPrice?: number | undefined; // BUY: pior preço aceitável
+  minPrice?: number | undefined; // SELL: pior preço aceitável
+  maxSlippageBps?: number | undefined;
+};
+
+export class SlippageError extends ExecutorError {
+  constructor(
+    code: "PRICE_LIMIT_EXCEEDED" | "SLIPPAGE_LIMIT_EXCEEDED" | "NO_LIQUIDITY",
+    message: string,
+    public readonly quote: OrderQuote,
+  ) {
+    super(code, message, 422, { quote });
+    this.name = "SlippageError";
+  }
+}
+
+/**
+ * Throws SlippageError if filling `quote` would breach the guard
+ */
+export function assertWithinSlippage(quote: OrderQuote, guard: SlippageGuard): void {
+  if (quote.worstPrice === null || quote.avgPrice === null) {
+    throw new SlippageError("NO_LIQUIDITY", "Orderbook has no liquidity on this side", quote);
+  }
+
+  if (quote.side === "BUY" && guard.maxPrice !== undefined && quote.worstPrice > guard.maxPrice) {
+    throw new SlippageError(
+      "PRICE_LIMIT_EXCEEDED",
+      `Fill would reach ${quote.worstPrice} (maxPrice ${guard.maxPrice})`,
+      quote,
+    );
+  }
+
+  if (quote.side === "SELL" && guard.minPrice !== undefined && quote.worstPrice < guard.minPrice) {
+    throw new SlippageError(
+      "PRICE_LIMIT_EXCEEDED",
+      `Fill would reach ${quote.worstPrice} (minPrice ${guard.minPrice})`,
+      quote,
+    );
+  }
+
+  // Book de um lado só: sem midpoint não há como medir slippage, então não passa sem proteção
+  if (guard.maxSlippageBps !== undefined && quote.slippageBps === null) {
+    throw new SlippageError(
+      "SLIPPAGE_LIMIT_EXCEEDED",
+      `Slippage can't be measured without a midpoint (one-sided book), max ${guard.maxSlippageBps} bps`,
+      quote,
+    );
+  }
+
+  if (guard.maxSlippageBps !== undefined && quote.slippageBps !== null && quote.slippageBps > guard.maxSlippageBps) {
+    throw new SlippageError(
+      "SLIPPAGE_LIMIT_EXCEEDED",
+      `Slippage ${quote.slippageBps.toFixed(1)} bps exceeds max ${guard.maxSlippageBps} bps`,
+      quote,
+    );
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Paper trading: in-process simulated CLOB
+ * Enabled with EXECUTOR_MODE=paper. No real money, no network.
+ *
+ * - Orderbooks come from recorded snapshots (PAPER_FIXTURES_DIR/orderbooks/<tokenId>.json)
+ *   or, if there is none, a deterministic seeded book
+ * - FAK market orders match against the book and consume its liquidity
+ * - Limit orders rest (never match) so the open-order lifecycle works
+ * - Virtual USDC and outcome-token balances per derived address, persisted locally
+ *
+ * Responses mirror the live CLOB shapes, so callers cannot tell the difference.
+ * Order/trade events are emitted on `paperEvents` ("user", address, event) like the
+ * CLOB user WebSocket channel would push them.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type { OrderBookSummary, OpenOrder, UserMarketOrder, UserOrder } from "@polymarket/clob-client";
+import { Side, AssetType } from "@polymarket/clob-client";
+import { openJsonStore } from "./localStore";
+
+export const PAPER_MODE = (process.env.EXECUTOR_MODE || "").trim().toLowerCase() === "paper";
+
+export const PAPER_FIXTURES_DIR = path.resolve((process.env.PAPER_FIXTURES_DIR || "").trim() || "./fixtures/paper");
+const INITIAL_USDC = Number(process.env.PAPER_INITIAL_USDC ?? "1000");
+
+type Level = { price: string; size: string };
+
+type PaperState = {
+  // address → USDC (decimal)
+  usdc: Record<string, number>;
+  // address → tokenId → shares
+  tokens: Record<string, Record<string, number>>;
+  // tokenId → book atual (snapshot com liquidez já consumida)
+  books: Record<string, { bids: Level[]; asks: Level[]; tick_size: string; neg_risk: boolean; market: string }>;
+  openOrders: Record<string, OpenOrder>;
+};
+
+export const paperEvents = new EventEmitter();
+paperEvents.setMaxListeners(0);
+
+const state = openJsonStore<PaperState>("paper-state.json", () => ({
+  usdc: {},
+  tokens: {},
+  books: {},
+  openOrders: {},
+}));
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+function fakeHash(): string {
+  return "0x" + crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Deterministic book around a mid derived from the tokenId (same token → same book)
+ */
+function seededBook(tokenId: string) {
+  const seed = crypto.createHash("sha256").update(tokenId).digest();
+  const mid = 0.1 + (seed[0]! / 255) * 0.8;
+  const bids: Level[] = [];
+  const asks: Level[] = [];
+
+  for (let i = 1; i <= 5; i++) {
+    const size = String(100 * i + (seed[i] ?? 0));
+    bids.push({ price: Math.max(0.01, mid - 0.01 * i).toFixed(2), size });
+    asks.push({ price: Math.min(0.99, mid + 0.01 * i).toFixed(2), size });
+  }
+
+  return { bids, asks, tick_size: "0.01", neg_risk: false, market: "0x" + seed.toString("hex") };
+}
+
+function loadBook(tokenId: string): PaperState["books"][string] {
+  const existing = state.get().books[tokenId];
+  if (existing) return existing;
+
+  const file = path.join(PAPER_FIXTURES_DIR, "orderbooks", `${tokenId}.json`);
+  const snapshot: any = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : seededBook(tokenId);
+
+  const book = {
+    bids: snapshot.bids ?? [],
+    asks: snapshot.asks ?? [],
+    tick_size: String(snapshot.tick_size ?? "0.01"),
+    neg_risk: Boolean(snapshot.neg_risk),
+    market: snapshot.market ?? "",
+  };
+
+  state.update((s) => {
+    s.books[tokenId] = book;
+  });
+  return book;
+}
+
+export function paperCtfBalances(owner: string, tokenIds: string[]): Record<string, number> {
+  const held = state.get().tokens[owner] ?? {};
+  return Object.fromEntries(tokenIds.map((id) => [id, held[id] ?? 0]));
+}
+
+/**
+ * Simulated ClobClient for one user (funder address).
+ * Implements the subset of ClobClient the executor uses.
+ */
+export class PaperClobClient {
+  constructor(private readonly funder: string) {}
+
+  private usdcBalance(): number {
+    return state.get().usdc[this.funder] ?? INITIAL_USDC;
+  }
+
+  async getOrderBook(tokenID: string): Promise<OrderBookSummary> {
+    const book = loadBook(tokenID);
+    return {
+      market: book.market,
+      asset_id: tokenID,
+      timestamp: String(Date.now()),
+      // Mesma ordenação da API: bids crescente, asks decrescente (melhor preço no fim)
+      bids: [...book.bids].sort((a, b) => Number(a.price) - Number(b.price)),
+      asks: [...book.asks].sort((a, b) => Number(b.price) - Number(a.price)),
+      min_order_size: "5",
+      tick_size: book.tick_size,
+      neg_risk: book.neg_risk,
+      hash: fakeHash(),
+    } as OrderBookSummary;
+  }
+
+  async getBalanceAllowance(params?: { asset_type: AssetType; token_id?: string }) {
+    const balance =
+      params?.asset_type === AssetType.CONDITIONAL && params.token_id
+        ? (state.get().tokens[this.funder]?.[params.token_id] ?? 0)
+        : this.usdcBalance();
+
+    // Valores em unidades raw (6 decimais), como no CLOB
+    return { balance: String(Math.floor(balance * 1e6)), allowance: String(2n ** 256n - 1n) };
+  }
+
+  async updateBalanceAllowance(): Promise<void> {}
+
+  async createAndPostMarketOrder(userOrder: UserMarketOrder, _options?: unknown, _orderType?: unknown) {
+    const book = loadBook(userOrder.tokenID);
+    const isBuy = userOrder.side === Side.BUY;
+    const held = state.get().tokens[this.funder]?.[userOrder.tokenID] ?? 0;
+
+    if (isBuy && userOrder.amount > this.usdcBalance()) {
+      return { success: false, errorMsg: "not enough balance / allowance", orderID: "", transactionsHashes: [], status: "", takingAmount: "", makingAmount: "" };
+    }
+    if (!isBuy && userOrder.amount > held) {
+      return { success: false, errorMsg: "not enough balance / allowance", orderID: "", transactionsHashes: [], status: "", takingAmount: "", makingAmount: "" };
+    }
+
+    const levels = (isBuy ? book.asks : book.bids)
+      .map((l) => ({ raw: l.price, price: Number(l.price), size: Number(l.size) }))
+      .sort((a, b) => (isBuy ? a.price - b.price : b.price - a.price));
+
+    let remaining = userOrder.amount;
+    let shares = 0;
+    let usdc = 0;
+
+    for (const level of levels) {
+      if (remaining <= 1e-9) break;
+      // Limite de preço (FAK com price): não passa do pior preço aceito
+      if (userOrder.price !== undefined && (isBuy ? level.price > userOrder.price : level.price < userOrder.price)) break;
+
+      const fillShares = isBuy ? Math.min(level.size, remaining / level.price) : Math.min(level.size, remaining);
+      shares += fillShares;
+      usdc += fillShares * level.price;
+      remaining -= isBuy ? fillShares * level.price : fillShares;
+      level.size -= fillShares;
+    }
+
+    if (shares <= 0) {
+      return { success: false, errorMsg: "no orders found to match with FAK order", orderID: "", transactionsHashes: [], status: "", takingAmount: "", makingAmount: "" };
+    }
+
+    const remainingLevels: Level[] = levels
+      .filter((l) => l.size > 1e-9)
+      .map((l) => ({ price: l.raw, size: String(round6(l.size)) }));
+
+    state.update((s) => {
+      s.books[userOrder.tokenID] = { ...book, [isBuy ? "asks" : "bids"]: remainingLevels };
+      s.usdc[this.funder] = round6(this.usdcBalance() + (isBuy ? -usdc : usdc));
+      const tokens = (s.tokens[this.funder] ??= {});
+      tokens[userOrder.tokenID] = round6((tokens[userOrder.tokenID] ?? 0) + (isBuy ? shares : -shares));
+    });
+
+    console.log(`[Paper CLOB] ${isBuy ? "BUY" : "SELL"} ${round6(shares)} shares of ${userOrder.tokenID} for ${round6(usdc)} USDC`);
+
+    const orderID = fakeHash();
+    const txHash = fakeHash();
+
+    paperEvents.emit("user", this.funder, {
+      type: "trade",
+      data: {
+        event_type: "trade",
+        id: fakeHash(),
+        taker_order_id: orderID,
+        asset_id: userOrder.tokenID,
+        market: book.market,
+        side: userOrder.side,
+        size: String(round6(shares)),
+        price: String(round6(usdc / shares)),
+        status: "MATCHED",
+        transaction_hash: txHash,
+        timestamp: String(Date.now()),
+      },
+    });
+
+    return {
+      success: true,
+      errorMsg: "",
+      orderID,
+      transactionsHashes: [txHash],
+      status: "matched",
+      // BUY: paga USDC, recebe shares; SELL: o inverso
+      makingAmount: String(round6(isBuy ? usdc : shares)),
+      takingAmount: String(round6(isBuy ? shares : usdc)),
+    };
+  }
+
+  async createAndPostOrder(userOrder: UserOrder, _options?: unknown, orderType?: string) {
+    const id = fakeHash();
+    const order: OpenOrder = {
+      id,
+      status: "LIVE",
+      owner: this.funder,
+      maker_address: this.funder,
+      market: loadBook(userOrder.tokenID).market,
+      asset_id: userOrder.tokenID,
+      side: userOrder.side,
+      original_size: String(userOrder.size),
+      size_matched: "0",
+      price: String(userOrder.price),
+      associate_trades: [],
+      outcome: "",
+      created_at: Math.floor(Date.now() / 1000),
+      expiration: String(userOrder.expiration ?? 0),
+      order_type: orderType ?? "GTC",
+    };
+
+    state.update((s) => {
+      s.openOrders[id] = order;
+    });
+    paperEvents.emit("user", this.funder, { type: "order", data: { event_type: "order", type: "PLACEMENT", ...order } });
+
+    return { success: true, errorMsg: "", orderID: id, transactionsHashes: [], status: "live", takingAmount: "", makingAmount: "" };
+  }
+
+  private ownOpenOrders(): OpenOrder[] {
+    const now = Math.floor(Date.now() / 1000);
+    return Object.values(state.get().openOrders).filter(
+      (o) => o.maker_address === this.funder && (o.expiration === "0" || Number(o.expiration) > now),
+    );
+  }
+
+  async getOpenOrders(params?: { market?: string; asset_id?: string }): Promise<OpenOrder[]> {
+    return this.ownOpenOrders().filter(
+      (o) => (!params?.market || o.market === params.market) && (!params?.asset_id || o.asset_id === params.asset_id),
+    );
+  }
+
+  async getOrder(orderID: string): Promise<OpenOrder | null> {
+    return this.ownOpenOrders().find((o) => o.id === orderID) ?? null;
+  }
+
+  private cancel(ids: string[]) {
+    const canceled = ids.filter((id) => state.get().openOrders[id]?.maker_address === this.funder);
+    for (const id of canceled) {
+      paperEvents.emit("user", this.funder, {
+        type: "order",
+        data: { event_type: "order", type: "CANCELLATION", ...state.get().openOrders[id] },
+      });
+    }
+    state.update((s) => {
+      for (const id of canceled) delete s.openOrders[id];
+    });
+    const not_canceled = Object.fromEntries(ids.filter((id) => !canceled.includes(id)).map((id) => [id, "order not found"]));
+    return { canceled, not_canceled };
+  }
+
+  async cancelOrder(payload: { orderID: string }) {
+    return this.cancel([payload.orderID]);
+  }
+
+  async cancelAll() {
+    return this.cancel(this.ownOpenOrders().map((o) => o.id));
+  }
+
+  async cancelMarketOrders(params: { market?: string; asset_id?: string }) {
+    return this.cancel((await this.getOpenOrders(params)).map((o) => o.id));
+  }
+}
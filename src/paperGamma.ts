@@ -0,0 +1,100 @@
+/**
+ * Paper trading: Gamma API served from fixture files
+ * PAPER_FIXTURES_DIR/gamma/events.json — array of Gamma events with embedded markets
+ * (same shape as GET /events). Supports the paths/params the executor uses.
+ */
+
+import fs from "fs";
+import path from "path";
+import { PAPER_FIXTURES_DIR } from "./paperClob";
+
+type Params = Record<string, string | number | boolean | string[] | undefined>;
+
+let cachedEvents: any[] | null = null;
+
+function loadEvents(): any[] {
+  if (!cachedEvents) {
+    const file = path.join(PAPER_FIXTURES_DIR, "gamma", "events.json");
+    cachedEvents = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as any[]) : [];
+  }
+  return cachedEvents;
+}
+
+function allMarkets(): any[] {
+  // Mesmo formato do /markets: cada market carrega o event em `events`
+  return loadEvents().flatMap((ev) =>
+    (Array.isArray(ev.markets) ? ev.markets : []).map((m: any) => ({ ...m, events: [{ ...ev, markets: undefined }] })),
+  );
+}
+
+function notFound(p: string): Error {
+  const err: Error & { status?: number; bodyText?: string; url?: string } = new Error(`Gamma error 404: not found`);
+  err.status = 404;
+  err.bodyText = "not found";
+  err.url = `paper:${p}`;
+  return err;
+}
+
+function page<T>(items: T[], params: Params): T[] {
+  const offset = Number(params.offset ?? 0);
+  const limit = Number(params.limit ?? 100);
+  return items.slice(offset, offset + limit);
+}
+
+function byId(items: any[], segment: string, bySlug: boolean, p: string) {
+  const found = items.find((x) => (bySlug ? x.slug === segment : String(x.id) === segment));
+  if (!found) throw notFound(p);
+  return found;
+}
+
+export async function paperGammaGet<T>(p: string, params: Params = {}): Promise<T> {
+  const parts = p.split("/").filter(Boolean).map(decodeURIComponent);
+  const [resource, first, second] = parts;
+
+  if (resource === "events" && first) {
+    return byId(loadEvents(), second ?? first, first === "slug", p) as T;
+  }
+
+  if (resource === "markets" && first) {
+    return byId(allMarkets(), second ?? first, first === "slug", p) as T;
+  }
+
+  if (resource === "events") {
+    let events = loadEvents().filter((ev) => params.closed === undefined || Boolean(ev.closed) === params.closed);
+    if (params.tag_slug) {
+      events = events.filter((ev) => (ev.tags ?? []).some((t: any) => t.slug === params.tag_slug));
+    }
+
+    const order = String(params.order ?? "id");
+    const dir = params.ascending ? 1 : -1;
+    const value = (ev: any) => (order === "endDate" ? Date.parse(ev.endDate ?? "") || 0 : Number(ev[order] ?? 0));
+    events = [...events].sort((a, b) => (value(a) - value(b)) * dir);
+
+    return page(events, params) as T;
+  }
+
+  if (resource === "markets") {
+    const asSet = (v: Params[string]) => new Set(Array.isArray(v) ? v : v !== undefined ? [String(v)] : []);
+    const wanted = asSet(params.clob_token_ids);
+    const conditions = asSet(params.condition_ids);
+    const markets = allMarkets().filter((m) => {
+      if (conditions.size > 0 && !conditions.has(String(m.conditionId))) return false;
+      if (wanted.size === 0) return true;
+      const tokenIds: string[] = typeof m.clobTokenIds === "string" ? JSON.parse(m.clobTokenIds) : m.clobTokenIds ?? [];
+      return tokenIds.some((id) => wanted.has(String(id)));
+    });
+    return page(markets, params) as T;
+  }
+
+  if (resource === "public-search") {
+    const q = String(params.q ?? "").toLowerCase();
+    const events = loadEvents().filter(
+      (ev) =>
+        String(ev.title ?? "").toLowerCase().includes(q) ||
+        (ev.markets ?? []).some((m: any) => String(m.question ?? "").toLowerCase().includes(q)),
+    );
+    return { events: page(events, { limit: params.limit_per_type, offset: 0 }) } as T;
+  }
+
+  throw notFound(p);
+}
@@ -0,0 +1,89 @@
+/**
+ * Phone canonicalization (E.164)
+ * Wallet derivation and every per-user record key off the canonical form, so
+ * "+55 11 9...", "0055 11 9...", "5511 9..." and "+55119..." are the same user.
+ * National numbers (no country code) get PHONE_DEFAULT_COUNTRY_CODE; set it empty to
+ * reject them instead, when callers may send numbers from more than one country.
+ */
+
+import { ValidationError } from "./errors";
+
+// Números nacionais (ex: "11 91234-5678") recebem este prefixo; vazio = rejeita
+const DEFAULT_COUNTRY_CODE = (process.env.PHONE_DEFAULT_COUNTRY_CODE ?? "55").replace(/\D/g, "");
+
+// Número nacional tem no máximo 11 dígitos (DDD + 9 dígitos no BR); acima disso já vem com o país
+const MAX_NATIONAL_DIGITS = 11;
+
+/**
+ * Normalize to E.164 ("+5511912345678").
+ * - Strips spaces, dashes, dots and parentheses
+ * - "00" international prefix → "+"
+ * - No "+" / "00" and more than 11 digits → already carries the country code ("5511 9...")
+ * - No "+" / "00" and up to 11 digits → national number (trunk "0" dropped), prefixed with
+ *   PHONE_DEFAULT_COUNTRY_CODE; INVALID_PHONE when that is empty
+ */
+export function normalizePhone(raw: string): string {
+  const trimmed = raw.trim();
+  if (!/^[+\d\s().-]+$/.test(trimmed)) {
+    throw new ValidationError("INVALID_PHONE", "Phone number contains invalid characters");
+  }
+
+  let digits = trimmed.replace(/\D/g, "");
+  const international = trimmed.startsWith("+") || digits.startsWith("00");
+
+  if (digits.startsWith("00")) digits = digits.slice(2);
+  else if (!international) digits = digits.replace(/^0+/, "");
+
+  if (!international && digits.length <= MAX_NATIONAL_DIGITS) {
+    if (!DEFAULT_COUNTRY_CODE) {
+      throw new ValidationError("INVALID_PHONE", "Phone number must start with the country code (+<country><number>)");
+    }
+    digits = DEFAULT_COUNTRY_CODE + digits;
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith("0")) {
+    throw new ValidationError("INVALID_PHONE", "Phone number is not a valid E.164 number");
+  }
+
+  return `+${digits}`;
+}
+
+/**
+ * Whether a raw legacy input (sent before normalization) is a format of `e164`.
+ * It must normalize to exactly `e164`: a national input only matches as the full
+ * national number under PHONE_DEFAULT_COUNTRY_CODE, never as a shorter suffix
+ * ("12345678" is not a format of "+5511912345678", it may be someone else's number).
+ */
+export function isPhoneVariant(raw: string, e164: string): boolean {
+  try {
+    return normalizePhone(raw) === e164;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format of a raw phone with every digit replaced by "#" ("+## ## #####-####").
+ * Lets us rebuild a legacy raw variant from the canonical phone later without
+ * ever storing the digits.
+ */
+export function phoneFormatMask(raw: string): string {
+  return raw.trim().replace(/\d/g, "#");
+}
+
+/**
+ * Rebuild a raw variant from the canonical phone and a format mask.
+ * Masks with fewer digits than the canonical number drop leading digits
+ * (e.g. variants sent without the country code).
+ */
+export function applyPhoneMask(e164: string, mask: string): string {
+  const digits = e164.replace(/\D/g, "");
+  const slots = (mask.match(/#/g) || []).length;
+  let remaining = digits.slice(Math.max(0, digits.length - slots));
+
+  return mask.replace(/#/g, () => {
+    const d = remaining[0] ?? "";
+    remaining = remaining.slice(1);
+    return d;
+  });
+}
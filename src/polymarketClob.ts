@@ -1,6 +1,10 @@
 import { ClobClient, Side, AssetType, OrderType } from "@polymarket/clob-client";
 import { Wallet } from "ethers";
 import { getThirdwebSigner } from "./thirdwebWallet";
+import { PAPER_MODE, PaperClobClient } from "./paperClob";
+import { rethrowClobError, unwrapClobResult, UpstreamError } from "./errors";
+import { openJsonStore, sealSecret, openSecret, type SealedSecret } from "./localStore";
+import { getUserDerivationVersion } from "./userRegistry";
 
 const POLYMARKET_HOST = process.env.POLYMARKET_HOST ?? "https://clob.polymarket.com";
 const POLYMARKET_CHAIN_ID = Number(process.env.POLYMARKET_CHAIN_ID ?? "137");
@@ -15,8 +19,17 @@ export type ApiCreds = {
   passphrase: string;
 };
 
-// Multi-user API credentials cache: phone → credentials
+// Multi-user API credentials: address → credentials
+// Memória + arquivo cifrado (api-creds.json), pra não re-derivar tudo a cada deploy
 const apiCredsCache = new Map<string, ApiCreds>();
+const credsStore = openJsonStore<Record<string, SealedSecret>>("api-creds.json", () => ({}));
+
+// Derivações em andamento: requests concorrentes do mesmo usuário compartilham uma só
+const inFlightDerivations = new Map<string, Promise<ApiCreds>>();
+
+// Pool de L2 clients por usuário (LRU)
+const L2_POOL_SIZE = Math.max(1, Number(process.env.L2_CLIENT_POOL_SIZE ?? "500"));
+const l2Pool = new Map<string, ClobClient>();
 
 function normalizeBase64ForAtob(input: string): string {
   const trimmed = input.trim();
@@ -47,48 +60,171 @@ export async function getPolymarketAddress(phone: string) {
   return signer.getAddress();
 }
 
-export async function getApiCreds(phone: string): Promise<ApiCreds> {
-  // Check cache first
-  if (apiCredsCache.has(phone)) {
-    return apiCredsCache.get(phone)!;
+function loadPersistedCreds(address: string): ApiCreds | null {
+  const sealed = credsStore.get()[address];
+  if (!sealed) return null;
+
+  const opened = openSecret(sealed);
+  if (!opened) {
+    console.warn(`[Executor CLOB] Stored API credentials for ${address} could not be decrypted, re-deriving`);
+    return null;
   }
+  return coerceApiCreds(JSON.parse(opened));
+}
+
+async function deriveApiCreds(signer: Wallet, address: string): Promise<ApiCreds> {
+  // L1 client (no credentials needed for derivation)
+  const l1 = new ClobClient(POLYMARKET_HOST, POLYMARKET_CHAIN_ID, signer);
+
+  const nonceEnv = process.env.POLYMARKET_API_NONCE;
+  const nonceMaybe = nonceEnv ? Number(nonceEnv) : undefined;
+  const nonce = Number.isFinite(nonceMaybe as number) ? (nonceMaybe as number) : undefined;
+
+  const raw = unwrapClobResult(await l1.createOrDeriveApiKey(nonce));
+  const creds = coerceApiCreds(raw);
+
+  apiCredsCache.set(address, creds);
+  credsStore.update((s) => {
+    s[address] = sealSecret(JSON.stringify(creds));
+  });
+
+  console.log(`[Executor CLOB] API credentials derived and stored for ${address}`);
+  return creds;
+}
+
+async function resolveApiCreds(signer: Wallet, opts: { refresh?: boolean } = {}): Promise<ApiCreds> {
+  const address = await signer.getAddress();
+
+  if (opts.refresh) {
+    invalidateCreds(address);
+  } else {
+    const known = apiCredsCache.get(address) ?? loadPersistedCreds(address);
+    if (known) {
+      apiCredsCache.set(address, known);
+      return known;
+    }
+  }
+
+  const pending = inFlightDerivations.get(address);
+  if (pending) return pending;
+
+  const derivation = deriveApiCreds(signer, address)
+    .catch((error: any) => {
+      console.error(`[Executor CLOB] Failed to derive API credentials for ${address}:`, error);
+      throw error;
+    })
+    .finally(() => inFlightDerivations.delete(address));
+
+  inFlightDerivations.set(address, derivation);
+  return derivation;
+}
+
+function invalidateCreds(address: string): void {
+  apiCredsCache.delete(address);
+  if (credsStore.get()[address]) {
+    credsStore.update((s) => {
+      delete s[address];
+    });
+  }
+}
+
+export async function getApiCreds(phone: string): Promise<ApiCreds> {
+  return resolveApiCreds(await getThirdwebSigner(phone));
+}
 
-  try {
-    // Get user-specific signer
-    const signer = await getThirdwebSigner(phone);
-    
-    // L1 client (no credentials needed for derivation)
-    const l1 = new ClobClient(POLYMARKET_HOST, POLYMARKET_CHAIN_ID, signer);
-
-    const nonceEnv = process.env.POLYMARKET_API_NONCE;
-    const nonceMaybe = nonceEnv ? Number(nonceEnv) : undefined;
-    const nonce = Number.isFinite(nonceMaybe as number) ? (nonceMaybe as number) : undefined;
-
-    const raw = await l1.createOrDeriveApiKey(nonce);
-    const creds = coerceApiCreds(raw);
-    
-    // Cache per user
-    apiCredsCache.set(phone, creds);
-    
-    console.log(`[Executor CLOB] API credentials derived and cached for user ${phone.slice(-4)}`);
-    return creds;
-  } catch (error: any) {
-    // If credentials derivation fails, clear cache and re-throw
-    apiCredsCache.delete(phone);
-    console.error(`[Executor CLOB] Failed to derive API credentials for ${phone.slice(-4)}:`, error);
-    throw error;
+// Após migração de derivação o endereço muda: tira o client antigo do pool
+// (creds ficam guardadas por endereço, as antigas não atrapalham)
+export function evictL2Client(phone: string): void {
+  for (const key of l2Pool.keys()) {
+    if (key.endsWith(`:${phone}`)) l2Pool.delete(key);
   }
 }
 
-export async function getL2Client(phone: string) {
+function isAuthFailure(error: unknown): boolean {
+  return error instanceof UpstreamError && error.code === "UPSTREAM_AUTH";
+}
+
+// clob-client não lança em erro HTTP (devolve { error, status }): todo método async
+// do client passa por unwrapClobResult, que converte em UpstreamError; o que ele lança
+// (book vazio, preço inválido...) passa por rethrowClobError.
+// Com `onAuthFailure`, um 401 / invalid api key troca o client (creds re-derivadas) e repete a chamada uma vez.
+export function withErrorUnwrapping(client: ClobClient, onAuthFailure?: () => Promise<ClobClient>): ClobClient {
+  let current = client;
+
+  return new Proxy(client, {
+    get(_target, prop) {
+      const value = Reflect.get(current, prop, current);
+      if (typeof value !== "function") return value;
+
+      return (...args: unknown[]) => {
+        let result: unknown;
+        try {
+          result = value.apply(current, args);
+        } catch (error) {
+          rethrowClobError(error);
+        }
+        if (!(result instanceof Promise)) return result;
+
+        const unwrapped = result.then(unwrapClobResult, rethrowClobError);
+        if (!onAuthFailure) return unwrapped;
+
+        return unwrapped.catch(async (error: unknown) => {
+          if (!isAuthFailure(error)) throw error;
+
+          current = await onAuthFailure();
+          const retry = Reflect.get(current, prop, current) as (...a: unknown[]) => unknown;
+          return Promise.resolve()
+            .then(() => retry.apply(current, args))
+            .then(unwrapClobResult, rethrowClobError);
+        });
+      };
+    },
+  });
+}
+
+async function buildL2Client(phone: string): Promise<ClobClient> {
   const signer = await getThirdwebSigner(phone);
-  const creds = await getApiCreds(phone);
   const funder = await signer.getAddress();
 
-  console.log(`[Executor CLOB] L2 client created for user ${phone.slice(-4)} (funder: ${funder})`);
-  
+  // Paper mode: CLOB simulado em memória (sem derivar API creds, sem rede)
+  if (PAPER_MODE) {
+    // PaperClobClient implementa só o subconjunto de ClobClient que as rotas usam
+    return withErrorUnwrapping(new PaperClobClient(funder) as unknown as ClobClient);
+  }
+
   // signatureType 0 = EOA
-  return new ClobClient(POLYMARKET_HOST, POLYMARKET_CHAIN_ID, signer, creds, 0, funder);
+  const create = (creds: ApiCreds) =>
+    new ClobClient(POLYMARKET_HOST, POLYMARKET_CHAIN_ID, signer, creds, 0, funder);
+
+  const client = create(await resolveApiCreds(signer));
+  console.log(`[Executor CLOB] L2 client created for user ${phone.slice(-4)} (funder: ${funder})`);
+
+  return withErrorUnwrapping(client, async () => {
+    console.warn(`[Executor CLOB] CLOB rejected API key of ${funder}, re-deriving and retrying once`);
+    return create(await resolveApiCreds(signer, { refresh: true }));
+  });
+}
+
+export async function getL2Client(phone: string): Promise<ClobClient> {
+  // Chave inclui a versão de derivação: migração muda o endereço do usuário
+  const key = `${getUserDerivationVersion(phone)}:${phone}`;
+
+  const pooled = l2Pool.get(key);
+  if (pooled) {
+    // LRU: reinserir marca como usado mais recentemente
+    l2Pool.delete(key);
+    l2Pool.set(key, pooled);
+    return pooled;
+  }
+
+  const client = await buildL2Client(phone);
+  l2Pool.set(key, client);
+  while (l2Pool.size > L2_POOL_SIZE) {
+    const oldest = l2Pool.keys().next().value;
+    if (oldest === undefined) break;
+    l2Pool.delete(oldest);
+  }
+  return client;
 }
 
 export { Side, AssetType, OrderType };
@@ -1,23 +1,38 @@
+import { PAPER_MODE } from "./paperClob";
+import { paperGammaGet } from "./paperGamma";
+import { upstreamError } from "./errors";
+
 const GAMMA_HOST = "https://gamma-api.polymarket.com";
 
-type GammaError = Error & { status?: number; bodyText?: string; url?: string };
+export type GammaError = Error & { status?: number; bodyText?: string; url?: string };
 
 async function gammaGet<T>(
   path: string,
-  params?: Record<string, string | number | boolean | undefined>,
+  params?: Record<string, string | number | boolean | string[] | undefined>,
 ): Promise<T> {
+  // Paper mode: fixtures locais, sem rede
+  if (PAPER_MODE) return paperGammaGet<T>(path, params);
+
   const url = new URL(path, GAMMA_HOST);
 
   if (params) {
     for (const [k, v] of Object.entries(params)) {
       if (v === undefined) continue;
+      // Arrays viram parâmetro repetido (?k=a&k=b)
+      if (Array.isArray(v)) {
+        for (const item of v) url.searchParams.append(k, item);
+        continue;
+      }
       url.searchParams.set(k, String(v));
     }
   }
 
+  // Falha de rede (DNS, conexão, timeout) também é erro do Gamma, não interno
   const res = await fetch(url.toString(), {
     method: "GET",
     headers: { Accept: "application/json" },
+  }).catch((error: any) => {
+    throw upstreamError("gamma", `Gamma request failed (${error?.cause?.code ?? error?.message ?? error})`);
   });
 
   const text = await res.text();
@@ -65,9 +80,286 @@ export async function gammaTopMarkets(limit = 10) {
         clobTokenIds: m.clobTokenIds,
         volume: m.volume,
         liquidity: m.liquidity,
+        // Já parseado: outcome + price + tokenId juntos
+        tokens: normalizeOutcomes(m),
       });
     }
   }
 
   return markets.slice(0, safeLimit);
 }
+
+function parseJsonArray(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map(String);
+  if (typeof raw !== "string") return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export type GammaTokenInfo = {
+  tokenId: string;
+  outcome: string | null;
+  marketId: string;
+  question: string;
+  slug: string;
+  conditionId: string | null;
+  closed: boolean;
+  negRisk: boolean;
+  negRiskMarketId: string | null; // neg-risk: id do market no NegRiskAdapter
+  questionId: string | null;
+  tickSize: string | null;
+};
+
+function tokenInfos(m: any): GammaTokenInfo[] {
+  const outcomes = parseJsonArray(m.outcomes);
+  return parseJsonArray(m.clobTokenIds).map((id, i) => ({
+    tokenId: id,
+    outcome: outcomes[i] ?? null,
+    marketId: String(m.id),
+    question: m.question,
+    slug: m.slug,
+    conditionId: m.conditionId ?? null,
+    closed: Boolean(m.closed),
+    negRisk: Boolean(m.negRisk),
+    negRiskMarketId: m.negRiskMarketID ?? null,
+    questionId: m.questionID ?? null,
+    tickSize: m.orderPriceMinTickSize !== undefined && m.orderPriceMinTickSize !== null ? String(m.orderPriceMinTickSize) : null,
+  }));
+}
+
+/**
+ * Market metadata por CLOB tokenId (question, outcome...)
+ */
+export async function gammaTokenInfo(tokenIds: string[]): Promise<Record<string, GammaTokenInfo>> {
+  if (tokenIds.length === 0) return {};
+
+  const markets = await gammaGet<any[]>("/markets", { clob_token_ids: tokenIds, limit: 100 });
+
+  const out: Record<string, GammaTokenInfo> = {};
+  for (const m of markets) {
+    for (const info of tokenInfos(m)) out[info.tokenId] = info;
+  }
+  return out;
+}
+
+/**
+ * Tokens (na ordem dos outcomes: YES, NO) do market de uma condition; [] se Gamma não conhece
+ */
+export async function gammaConditionTokens(conditionId: string): Promise<GammaTokenInfo[]> {
+  const markets = await gammaGet<any[]>("/markets", { condition_ids: [conditionId], limit: 1 });
+  const market = markets.find((m) => String(m.conditionId).toLowerCase() === conditionId.toLowerCase());
+  return market ? tokenInfos(market) : [];
+}
+
+// ============================================================================
+// DISCOVERY: search, filters, detail lookup, normalized model
+// ============================================================================
+
+export type MarketOutcome = {
+  name: string;
+  price: number | null;
+  tokenId: string | null;
+};
+
+export type NormalizedMarket = {
+  id: string;
+  conditionId: string | null;
+  question: string;
+  slug: string;
+  category: string | null;
+  eventId: string | null;
+  eventTitle: string | null;
+  eventSlug: string | null;
+  active: boolean;
+  closed: boolean;
+  endDate: string | null;
+  volume: number;
+  liquidity: number;
+  negRisk: boolean;
+  tags: string[];
+  outcomes: MarketOutcome[];
+};
+
+export type NormalizedEvent = {
+  id: string;
+  title: string;
+  slug: string;
+  active: boolean;
+  closed: boolean;
+  endDate: string | null;
+  volume: number;
+  liquidity: number;
+  negRisk: boolean;
+  tags: string[];
+  markets: NormalizedMarket[];
+};
+
+function toNumber(raw: unknown): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function tagSlugs(raw: unknown): string[] {
+  return Array.isArray(raw) ? raw.map((t: any) => String(t?.slug ?? t?.label ?? "")).filter(Boolean) : [];
+}
+
+function normalizeOutcomes(m: any): MarketOutcome[] {
+  const names = parseJsonArray(m.outcomes);
+  const prices = parseJsonArray(m.outcomePrices);
+  const tokenIds = parseJsonArray(m.clobTokenIds);
+
+  return names.map((name, i) => {
+    const price = prices[i] !== undefined ? Number(prices[i]) : NaN;
+    return {
+      name,
+      price: Number.isFinite(price) ? price : null,
+      tokenId: tokenIds[i] ?? null,
+    };
+  });
+}
+
+export function normalizeMarket(m: any, ev?: any): NormalizedMarket {
+  const event = ev ?? (Array.isArray(m.events) ? m.events[0] : undefined);
+
+  return {
+    id: String(m.id),
+    conditionId: m.conditionId ?? null,
+    question: m.question,
+    slug: m.slug,
+    category: m.category ?? event?.category ?? null,
+    eventId: event?.id !== undefined ? String(event.id) : null,
+    eventTitle: event?.title ?? null,
+    eventSlug: event?.slug ?? null,
+    active: Boolean(m.active),
+    closed: Boolean(m.closed),
+    endDate: m.endDate ?? null,
+    volume: toNumber(m.volumeNum ?? m.volume),
+    liquidity: toNumber(m.liquidityNum ?? m.liquidity),
+    negRisk: Boolean(m.negRisk ?? event?.negRisk),
+    tags: tagSlugs(m.tags ?? event?.tags),
+    outcomes: normalizeOutcomes(m),
+  };
+}
+
+export function normalizeEvent(ev: any): NormalizedEvent {
+  return {
+    id: String(ev.id),
+    title: ev.title,
+    slug: ev.slug,
+    active: Boolean(ev.active),
+    closed: Boolean(ev.closed),
+    endDate: ev.endDate ?? null,
+    volume: toNumber(ev.volume),
+    liquidity: toNumber(ev.liquidity),
+    negRisk: Boolean(ev.negRisk),
+    tags: tagSlugs(ev.tags),
+    markets: (Array.isArray(ev.markets) ? ev.markets : []).map((m: any) => normalizeMarket(m, ev)),
+  };
+}
+
+export type MarketSearchParams = {
+  q?: string | undefined;
+  tag?: string | undefined; // tag slug
+  category?: string | undefined;
+  endDateMin?: Date | undefined;
+  endDateMax?: Date | undefined;
+  minLiquidity?: number | undefined;
+  minVolume?: number | undefined;
+  sort?: "volume" | "liquidity" | "endDate" | undefined;
+  ascending?: boolean | undefined;
+  closed?: boolean | undefined;
+  limit: number;
+  offset: number;
+};
+
+const SORT_FIELDS = { volume: "volume", liquidity: "liquidity", endDate: "endDate" } as const;
+
+/**
+ * Search/list markets.
+ * Paginates at event level (Gamma pagination); `nextOffset` is null on the last page.
+ * Market-level filters (category, liquidity, volume, end date) are applied after flattening,
+ * so a page can hold fewer markets than `limit`.
+ */
+export async function gammaSearchMarkets(params: MarketSearchParams) {
+  const limit = Math.max(1, Math.min(100, params.limit));
+  const offset = Math.max(0, params.offset);
+
+  let events: any[];
+
+  if (params.q) {
+    // Busca textual: /public-search não aceita os filtros do /events, eles rodam localmente
+    const page = Math.floor(offset / limit) + 1;
+    const result = await gammaGet<{ events?: any[] }>("/public-search", {
+      q: params.q,
+      limit_per_type: limit,
+      page,
+      events_status: params.closed ? "closed" : "active",
+    });
+    events = (result.events ?? []).filter((ev) => !params.tag || tagSlugs(ev.tags).includes(params.tag));
+  } else {
+    events = await gammaGet<any[]>("/events", {
+      order: params.sort ? SORT_FIELDS[params.sort] : "id",
+      ascending: params.ascending ?? false,
+      closed: params.closed ?? false,
+      active: params.closed ? undefined : true,
+      tag_slug: params.tag,
+      end_date_min: params.endDateMin?.toISOString(),
+      end_date_max: params.endDateMax?.toISOString(),
+      liquidity_min: params.minLiquidity,
+      volume_min: params.minVolume,
+      limit,
+      offset,
+    });
+  }
+
+  const endMin = params.endDateMin?.getTime();
+  const endMax = params.endDateMax?.getTime();
+
+  const markets = events
+    .flatMap((ev) => normalizeEvent(ev).markets)
+    .filter((m) => {
+      if (params.category && m.category?.toLowerCase() !== params.category.toLowerCase()) return false;
+      if (params.minLiquidity !== undefined && m.liquidity < params.minLiquidity) return false;
+      if (params.minVolume !== undefined && m.volume < params.minVolume) return false;
+      const end = m.endDate ? Date.parse(m.endDate) : NaN;
+      if (endMin !== undefined && !(end >= endMin)) return false;
+      if (endMax !== undefined && !(end <= endMax)) return false;
+      return true;
+    });
+
+  if (params.sort) {
+    const key = params.sort;
+    const dir = params.ascending ? 1 : -1;
+    const value = (m: NormalizedMarket) => (key === "endDate" ? (m.endDate ? Date.parse(m.endDate) : 0) : m[key]);
+    markets.sort((a, b) => (value(a) - value(b)) * dir);
+  }
+
+  return {
+    markets,
+    limit,
+    offset,
+    nextOffset: events.length >= limit ? offset + limit : null,
+  };
+}
+
+function isNumericId(idOrSlug: string): boolean {
+  return /^\d+$/.test(idOrSlug);
+}
+
+export async function gammaGetMarket(idOrSlug: string): Promise<NormalizedMarket> {
+  const m = isNumericId(idOrSlug)
+    ? await gammaGet<any>(`/markets/${idOrSlug}`)
+    : await gammaGet<any>(`/markets/slug/${encodeURIComponent(idOrSlug)}`);
+  return normalizeMarket(m);
+}
+
+export async function gammaGetEvent(idOrSlug: string): Promise<NormalizedEvent> {
+  const ev = isNumericId(idOrSlug)
+    ? await gammaGet<any>(`/events/${idOrSlug}`)
+    : await gammaGet<any>(`/events/slug/${encodeURIComponent(idOrSlug)}`);
+  return normalizeEvent(ev);
+}
@@ -1,7 +1,10 @@
-import { Contract, Wallet, providers, utils, BigNumber } from "ethers";
+import { Contract, Signer, Wallet, providers, utils, BigNumber } from "ethers";
+import { getThirdwebSigner } from "./thirdwebWallet";
+import { ensureGasBalance, ensureGasForAddress } from "./gasManager";
+import { sendAndConfirm } from "./txManager";
+import { PAPER_MODE, paperCtfBalances } from "./paperClob";
 
 const RPC_URL = (process.env.POLYGON_RPC_URL || "").trim() || "https://polygon-rpc.com";
-const PRIVATE_KEY = (process.env.POLYMARKET_PRIVATE_KEY || "").trim();
 
 function mustEnv(name: string): string {
   const v = (process.env[name] || "").trim();
@@ -9,7 +12,7 @@ function mustEnv(name: string): string {
   return v;
 }
 
-function normalizeAddress(raw: string, name: string): string {
+export function normalizeAddress(raw: string, name: string): string {
   const v = raw.trim();
   try {
     return utils.getAddress(v);
@@ -18,86 +21,382 @@ function normalizeAddress(raw: string, name: string): string {
   }
 }
 
-const EXCHANGE = normalizeAddress(mustEnv("POLY_EXCHANGE_ADDRESS"), "POLY_EXCHANGE_ADDRESS");
-const CTF = normalizeAddress(mustEnv("POLY_CTF_ADDRESS"), "POLY_CTF_ADDRESS");
-const COLLATERAL = normalizeAddress(mustEnv("POLY_COLLATERAL_TOKEN_ADDRESS"), "POLY_COLLATERAL_TOKEN_ADDRESS");
+export const EXCHANGE = normalizeAddress(mustEnv("POLY_EXCHANGE_ADDRESS"), "POLY_EXCHANGE_ADDRESS");
+export const CTF = normalizeAddress(mustEnv("POLY_CTF_ADDRESS"), "POLY_CTF_ADDRESS");
+export const COLLATERAL = normalizeAddress(mustEnv("POLY_COLLATERAL_TOKEN_ADDRESS"), "POLY_COLLATERAL_TOKEN_ADDRESS");
 
-if (!PRIVATE_KEY) throw new Error("Missing POLYMARKET_PRIVATE_KEY in env");
+// Neg-risk (multi-outcome): exchange próprio + NegRiskAdapter. Default = contratos da Polygon mainnet
+export const NEG_RISK_EXCHANGE = normalizeAddress(
+  (process.env.POLY_NEG_RISK_EXCHANGE_ADDRESS || "").trim() || "0xC5d563A36AE78145C45a50134d48A1215220f80a",
+  "POLY_NEG_RISK_EXCHANGE_ADDRESS",
+);
+export const NEG_RISK_ADAPTER = normalizeAddress(
+  (process.env.POLY_NEG_RISK_ADAPTER_ADDRESS || "").trim() || "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296",
+  "POLY_NEG_RISK_ADAPTER_ADDRESS",
+);
 
 const provider = new providers.JsonRpcProvider(RPC_URL);
-const wallet = new Wallet(PRIVATE_KEY, provider);
 
 // ABIs mínimos
 const ERC20_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
   "function allowance(address owner, address spender) view returns (uint256)",
   "function approve(address spender, uint256 amount) returns (bool)",
+  "function transfer(address to, uint256 amount) returns (bool)",
 ];
 
 const ERC1155_ABI = [
   "function isApprovedForAll(address account, address operator) view returns (bool)",
   "function setApprovalForAll(address operator, bool approved)",
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
 ];
 
-const usdc = new Contract(COLLATERAL, ERC20_ABI, wallet);
-const ctf = new Contract(CTF, ERC1155_ABI, wallet);
+// ConditionalTokens (Gnosis CTF): resolução e resgate
+const CTF_ABI = [
+  ...ERC1155_ABI,
+  "function payoutDenominator(bytes32 conditionId) view returns (uint256)",
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+];
+
+const NEG_RISK_ADAPTER_ABI = [
+  "function convertPositions(bytes32 marketId, uint256 indexSet, uint256 amount)",
+  "function redeemPositions(bytes32 conditionId, uint256[] amounts)",
+];
+
+// Multi-user: contratos ligados ao signer derivado de cada usuário
+function contractsFor(signer: Signer) {
+  return {
+    usdc: new Contract(COLLATERAL, ERC20_ABI, signer),
+    ctf: new Contract(CTF, CTF_ABI, signer),
+    negRiskAdapter: new Contract(NEG_RISK_ADAPTER, NEG_RISK_ADAPTER_ABI, signer),
+  };
+}
+
+// Calldata de uma chamada, enviada via txManager (nonce, fees, substituição)
+function call(contract: Contract, method: string, args: unknown[]): providers.TransactionRequest {
+  return { to: contract.address, data: contract.interface.encodeFunctionData(method, args) };
+}
+
+// USDC allowance acima disso conta como "infinita" (heurística simples)
+const MAXISH_ALLOWANCE = utils.parseUnits("1000000", 6);
 
-// Polygon-RPC às vezes exige gas mínimo; a gente põe um piso pra não morrer
-async function txOverrides() {
-  const gp = await provider.getGasPrice();
-  const floor = utils.parseUnits("30", "gwei");
-  return { gasPrice: gp.lt(floor) ? floor : gp };
+export async function getOnchainApprovals(phone: string) {
+  const signer = await getThirdwebSigner(phone);
+  return getApprovalsForAddress(await signer.getAddress());
 }
 
-export async function getOnchainApprovals() {
-  const owner = await wallet.getAddress();
-  const allowance: BigNumber = await usdc.allowance(owner, EXCHANGE);
-  const approved: boolean = await ctf.isApprovedForAll(owner, EXCHANGE);
+/**
+ * Trading approvals of any address (read-only; used by the admin fleet view).
+ * `tradingEnabled` covers the binary exchange, `negRiskTradingEnabled` the neg-risk
+ * exchange + adapter (multi-outcome markets).
+ */
+export async function getApprovalsForAddress(owner: string) {
+  const usdc = new Contract(COLLATERAL, ERC20_ABI, provider);
+  const ctf = new Contract(CTF, ERC1155_ABI, provider);
+
+  const [allowance, approved, negRiskAllowances, negRiskApprovals]: [BigNumber, boolean, BigNumber[], boolean[]] =
+    await Promise.all([
+      usdc.allowance(owner, EXCHANGE),
+      ctf.isApprovedForAll(owner, EXCHANGE),
+      Promise.all([NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER].map((spender) => usdc.allowance(owner, spender))),
+      Promise.all([NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER].map((operator) => ctf.isApprovedForAll(owner, operator))),
+    ]);
 
   return {
     owner,
     exchange: EXCHANGE,
     usdcAllowanceToExchange: allowance.toString(),
     ctfApprovedForAllToExchange: approved,
+    tradingEnabled: allowance.gt(MAXISH_ALLOWANCE) && approved,
+    negRiskExchange: NEG_RISK_EXCHANGE,
+    negRiskAdapter: NEG_RISK_ADAPTER,
+    usdcAllowanceToNegRiskExchange: negRiskAllowances[0]!.toString(),
+    usdcAllowanceToNegRiskAdapter: negRiskAllowances[1]!.toString(),
+    ctfApprovedForAllToNegRiskExchange: negRiskApprovals[0]!,
+    ctfApprovedForAllToNegRiskAdapter: negRiskApprovals[1]!,
+    negRiskTradingEnabled: negRiskAllowances.every((a) => a.gt(MAXISH_ALLOWANCE)) && negRiskApprovals.every(Boolean),
   };
 }
 
-export async function enableTrading(spenders?: string[]) {
-  const owner = await wallet.getAddress();
-  const uniqueSpenders = Array.from(
-    new Set([EXCHANGE, ...(spenders || [])].map((s) => normalizeAddress(String(s), "spender")))
-  );
+export type OnchainApprovals = Awaited<ReturnType<typeof getApprovalsForAddress>>;
 
-  const out: any = {
-    owner,
-    exchange: EXCHANGE,
-    approvals: [],
-    ctf: { wasApproved: false, txHash: null as null | string },
+export type EnableTradingResult = {
+  owner: string;
+  exchange: string;
+  approvals: { spender: string; alreadyOk: boolean; txHash?: string }[];
+  ctf: { wasApproved: boolean; txHash: string | null };
+  // neg-risk exchange + adapter
+  ctfOperators: { operator: string; alreadyOk: boolean; txHash?: string }[];
+  final: OnchainApprovals;
+};
+
+/**
+ * Approve the exchange, the neg-risk exchange and the adapter to move the user's USDC
+ * and outcome tokens. The spenders are fixed: nothing else ever gets an allowance.
+ */
+export async function enableTrading(phone: string): Promise<EnableTradingResult> {
+  const signer = await getThirdwebSigner(phone);
+  const { usdc, ctf } = contractsFor(signer);
+  const owner = await signer.getAddress();
+
+  const approvals: EnableTradingResult["approvals"] = [];
+  const ctfApproval: EnableTradingResult["ctf"] = { wasApproved: false, txHash: null };
+  const ctfOperators: EnableTradingResult["ctfOperators"] = [];
+
+  // Só pede top-up de gas uma vez, e só se alguma tx for realmente necessária
+  let gasChecked = false;
+  const ensureGasOnce = async () => {
+    if (gasChecked) return;
+    await ensureGasBalance(phone, "approvals");
+    gasChecked = true;
   };
 
-  // 1) USDC allowance para (exchange + spenders)
-  for (const spender of uniqueSpenders) {
+  // 1) USDC allowance para exchange + neg-risk exchange/adapter
+  for (const spender of [EXCHANGE, NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER]) {
     const current: BigNumber = await usdc.allowance(owner, spender);
-    const isAlreadyMaxish = current.gt(utils.parseUnits("1000000", 6)); // heurística simples
 
-    if (isAlreadyMaxish) {
-      out.approvals.push({ spender, alreadyOk: true });
+    if (current.gt(MAXISH_ALLOWANCE)) {
+      approvals.push({ spender, alreadyOk: true });
       continue;
     }
 
-    const tx = await usdc.approve(spender, BigNumber.from(2).pow(256).sub(1), await txOverrides());
-    out.approvals.push({ spender, alreadyOk: false, txHash: tx.hash });
-    await tx.wait();
+    await ensureGasOnce();
+    const request = call(usdc, "approve", [spender, BigNumber.from(2).pow(256).sub(1)]);
+    const tx = await sendAndConfirm(signer, request, { kind: "approve", phone });
+    approvals.push({ spender, alreadyOk: false, txHash: tx.hash });
   }
 
   // 2) CTF setApprovalForAll pro exchange
-  const already = await ctf.isApprovedForAll(owner, EXCHANGE);
-  out.ctf.wasApproved = already;
+  const already: boolean = await ctf.isApprovedForAll(owner, EXCHANGE);
+  ctfApproval.wasApproved = already;
 
   if (!already) {
-    const tx = await ctf.setApprovalForAll(EXCHANGE, true, await txOverrides());
-    out.ctf.txHash = tx.hash;
-    await tx.wait();
+    await ensureGasOnce();
+    const request = call(ctf, "setApprovalForAll", [EXCHANGE, true]);
+    const tx = await sendAndConfirm(signer, request, { kind: "approve", phone });
+    ctfApproval.txHash = tx.hash;
+  }
+
+  // 3) CTF setApprovalForAll pros contratos neg-risk (ordens multi-outcome + conversão de NO)
+  for (const operator of [NEG_RISK_EXCHANGE, NEG_RISK_ADAPTER]) {
+    if (await ctf.isApprovedForAll(owner, operator)) {
+      ctfOperators.push({ operator, alreadyOk: true });
+      continue;
+    }
+
+    await ensureGasOnce();
+    const request = call(ctf, "setApprovalForAll", [operator, true]);
+    const tx = await sendAndConfirm(signer, request, { kind: "approve", phone });
+    ctfOperators.push({ operator, alreadyOk: false, txHash: tx.hash });
+  }
+
+  const final = await getOnchainApprovals(phone);
+
+  console.log(`[Onchain] Trading approvals enabled for user ${phone.slice(-4)} (${owner})`);
+  return { owner, exchange: EXCHANGE, approvals, ctf: ctfApproval, ctfOperators, final };
+}
+
+/**
+ * CTF (ERC1155) outcome-token balances of `owner`, in raw units (6 decimais, igual USDC)
+ */
+export async function getCtfBalances(owner: string, tokenIds: string[]): Promise<Record<string, BigNumber>> {
+  if (tokenIds.length === 0) return {};
+
+  if (PAPER_MODE) {
+    const paper = paperCtfBalances(owner, tokenIds);
+    return Object.fromEntries(tokenIds.map((id) => [id, utils.parseUnits((paper[id] ?? 0).toFixed(6), 6)]));
+  }
+
+  const ctf = new Contract(CTF, ERC1155_ABI, provider);
+  const balances: BigNumber[] = await ctf.balanceOfBatch(
+    tokenIds.map(() => owner),
+    tokenIds,
+  );
+
+  const out: Record<string, BigNumber> = {};
+  tokenIds.forEach((id, i) => {
+    out[id] = balances[i] ?? BigNumber.from(0);
+  });
+  return out;
+}
+
+/**
+ * Condition resolvida = CTF já tem payouts reportados pelo oracle
+ */
+export async function isConditionResolved(conditionId: string): Promise<boolean> {
+  const ctf = new Contract(CTF, CTF_ABI, provider);
+  const denominator: BigNumber = await ctf.payoutDenominator(conditionId);
+  return !denominator.isZero();
+}
+
+/**
+ * Redeem the user's positions in a resolved (binary) market for USDC.
+ * Redeems both outcome slots (indexSets 1 and 2); losing shares just burn to 0.
+ */
+export async function redeemPositions(phone: string, conditionId: string) {
+  const signer = await getThirdwebSigner(phone);
+  const { usdc, ctf } = contractsFor(signer);
+  const owner = await signer.getAddress();
+
+  await ensureGasBalance(phone, "redeem");
+
+  const before: BigNumber = await usdc.balanceOf(owner);
+  const request = call(ctf, "redeemPositions", [COLLATERAL, utils.hexZeroPad("0x", 32), conditionId, [1, 2]]);
+  const tx = await sendAndConfirm(signer, request, { kind: "redeem", phone });
+  const after: BigNumber = await usdc.balanceOf(owner);
+
+  const received = after.sub(before);
+  console.log(`[Onchain] Redeemed ${conditionId} for user ${phone.slice(-4)}: +${utils.formatUnits(received, 6)} USDC (${tx.hash})`);
+
+  return {
+    conditionId,
+    txHash: tx.hash,
+    usdcReceived: utils.formatUnits(received, 6),
+  };
+}
+
+/**
+ * Redeem the user's positions in a resolved neg-risk market for USDC.
+ * Neg-risk shares are backed by the adapter's wrapped collateral, so they go through
+ * NegRiskAdapter.redeemPositions with the held amounts of `tokenIds` ([YES, NO]).
+ */
+export async function redeemNegRiskPositions(phone: string, conditionId: string, tokenIds: [string, string]) {
+  const signer = await getThirdwebSigner(phone);
+  const { usdc, ctf, negRiskAdapter } = contractsFor(signer);
+  const owner = await signer.getAddress();
+
+  const balances = await getCtfBalances(owner, tokenIds);
+  const amounts = tokenIds.map((id) => balances[id] ?? BigNumber.from(0));
+
+  await ensureGasBalance(phone, "redeem");
+
+  // O adapter puxa as posições do usuário
+  if (!(await ctf.isApprovedForAll(owner, NEG_RISK_ADAPTER))) {
+    await sendAndConfirm(signer, call(ctf, "setApprovalForAll", [NEG_RISK_ADAPTER, true]), { kind: "approve", phone });
+  }
+
+  const before: BigNumber = await usdc.balanceOf(owner);
+  const request = call(negRiskAdapter, "redeemPositions", [conditionId, amounts]);
+  const tx = await sendAndConfirm(signer, request, { kind: "redeem", phone });
+  const after: BigNumber = await usdc.balanceOf(owner);
+
+  const received = after.sub(before);
+  console.log(`[Onchain] Redeemed neg-risk ${conditionId} for user ${phone.slice(-4)}: +${utils.formatUnits(received, 6)} USDC (${tx.hash})`);
+
+  return {
+    conditionId,
+    txHash: tx.hash,
+    usdcReceived: utils.formatUnits(received, 6),
+  };
+}
+
+/**
+ * Convert NO positions of a neg-risk market through the NegRiskAdapter: `amount` NO shares
+ * of every question in `indexSet` (bitmask of question indexes) become (k - 1) × amount USDC
+ * plus `amount` YES shares of every other question in the market.
+ */
+export async function convertNegRiskPositions(phone: string, marketId: string, indexSet: BigNumber, amount: BigNumber) {
+  const signer = await getThirdwebSigner(phone);
+  const { usdc, ctf, negRiskAdapter } = contractsFor(signer);
+  const owner = await signer.getAddress();
+
+  await ensureGasBalance(phone, "neg_risk_convert");
+
+  // O adapter move as posições NO do usuário
+  let approvalTxHash: string | null = null;
+  if (!(await ctf.isApprovedForAll(owner, NEG_RISK_ADAPTER))) {
+    const tx = await sendAndConfirm(signer, call(ctf, "setApprovalForAll", [NEG_RISK_ADAPTER, true]), { kind: "approve", phone });
+    approvalTxHash = tx.hash;
+  }
+
+  const before: BigNumber = await usdc.balanceOf(owner);
+  const request = call(negRiskAdapter, "convertPositions", [marketId, indexSet, amount]);
+  const tx = await sendAndConfirm(signer, request, { kind: "neg_risk_convert", phone });
+  const after: BigNumber = await usdc.balanceOf(owner);
+
+  const received = after.sub(before);
+  console.log(`[Onchain] Converted ${utils.formatUnits(amount, 6)} NO of ${marketId} (indexSet ${indexSet.toString()}) for user ${phone.slice(-4)}: +${utils.formatUnits(received, 6)} USDC (${tx.hash})`);
+
+  return {
+    txHash: tx.hash,
+    approvalTxHash,
+    usdcReceived: utils.formatUnits(received, 6),
+  };
+}
+
+/**
+ * Transfer USDC (collateral) from the user's derived wallet to `to`
+ */
+export async function transferCollateral(phone: string, to: string, amount: BigNumber) {
+  const signer = await getThirdwebSigner(phone);
+  const { usdc } = contractsFor(signer);
+  const recipient = normalizeAddress(to, "recipient");
+
+  await ensureGasBalance(phone, "withdrawal");
+
+  const request = call(usdc, "transfer", [recipient, amount]);
+  const tx = await sendAndConfirm(signer, request, { kind: "withdrawal", phone });
+
+  console.log(`[Onchain] Transferred ${utils.formatUnits(amount, 6)} USDC from user ${phone.slice(-4)} to ${recipient} (${tx.hash})`);
+  return { txHash: tx.hash };
+}
+
+/**
+ * USDC + MATIC balances of any address (raw units)
+ */
+export async function getWalletBalances(owner: string) {
+  const usdc = new Contract(COLLATERAL, ERC20_ABI, provider);
+  const [collateral, matic]: [BigNumber, BigNumber] = await Promise.all([
+    usdc.balanceOf(owner),
+    provider.getBalance(owner),
+  ]);
+  return { usdc: collateral, matic };
+}
+
+/**
+ * Move all USDC and the given CTF positions from `signer`'s wallet to `to`.
+ * Used by the wallet migration (legacy derivations → current one).
+ */
+export async function sweepWallet(signer: Wallet, to: string, tokenIds: string[], ownerPhone?: string) {
+  const { usdc, ctf } = contractsFor(signer);
+  const owner = await signer.getAddress();
+  const recipient = normalizeAddress(to, "recipient");
+
+  const { usdc: collateral } = await getWalletBalances(owner);
+  const positions = await getCtfBalances(owner, tokenIds);
+  const held = Object.entries(positions).filter(([, amount]) => !amount.isZero());
+
+  const out = {
+    from: owner,
+    to: recipient,
+    usdc: utils.formatUnits(collateral, 6),
+    usdcTxHash: null as null | string,
+    positions: held.map(([tokenId, amount]) => ({ tokenId, shares: utils.formatUnits(amount, 6) })),
+    ctfTxHash: null as null | string,
+  };
+  if (collateral.isZero() && held.length === 0) return out;
+
+  await ensureGasForAddress(owner, { ...(ownerPhone ? { phone: ownerPhone } : {}), reason: "migration" });
+
+  if (!collateral.isZero()) {
+    const request = call(usdc, "transfer", [recipient, collateral]);
+    const tx = await sendAndConfirm(signer, request, { kind: "migration", ...(ownerPhone ? { phone: ownerPhone } : {}) });
+    out.usdcTxHash = tx.hash;
+  }
+
+  if (held.length > 0) {
+    const request = call(ctf, "safeBatchTransferFrom", [
+      owner,
+      recipient,
+      held.map(([tokenId]) => tokenId),
+      held.map(([, amount]) => amount),
+      "0x",
+    ]);
+    const tx = await sendAndConfirm(signer, request, { kind: "migration", ...(ownerPhone ? { phone: ownerPhone } : {}) });
+    out.ctfTxHash = tx.hash;
   }
 
+  console.log(`[Onchain] Swept ${out.usdc} USDC + ${held.length} positions from ${owner} to ${recipient}`);
   return out;
 }
@@ -0,0 +1,158 @@
+/**
+ * Positions and mark-to-market PnL
+ * On-chain CTF balances of the user's derived address, enriched with Gamma metadata,
+ * valued against the current orderbook and the ledger's average cost.
+ * Also redeems winning positions once markets resolve.
+ */
+
+import { utils } from "ethers";
+import { getL2Client, getPolymarketAddress } from "./polymarketClob";
+import { getCtfBalances, isConditionResolved, redeemPositions, redeemNegRiskPositions } from "./polymarketOnchain";
+import { gammaTokenInfo, gammaConditionTokens, type GammaTokenInfo } from "./polymarketGamma";
+import { getTradedTokenIds, getCostBasis } from "./tradeLedger";
+import { quoteFromBook } from "./orderQuote";
+
+export type Position = {
+  tokenId: string;
+  shares: number;
+  market: { id: string; question: string; slug: string; outcome: string | null; closed: boolean } | null;
+  bestBid: number | null;
+  midpoint: number | null;
+  valueAtBid: number | null;
+  valueAtMid: number | null;
+  avgCost: number | null;
+  costBasis: number | null;
+  unrealizedPnlAtBid: number | null;
+  unrealizedPnlAtMid: number | null;
+};
+
+/**
+ * Positions for `tokenIds`, or for every token the user has traded (ledger) if omitted.
+ * Zero balances are skipped.
+ */
+export async function getUserPositions(phone: string, tokenIds?: string[]) {
+  const address = await getPolymarketAddress(phone);
+  const ids = tokenIds && tokenIds.length > 0 ? tokenIds : getTradedTokenIds(phone);
+
+  const balances = await getCtfBalances(address, ids);
+  const held = ids.filter((id) => balances[id] && !balances[id]!.isZero());
+
+  if (held.length === 0) return { address, positions: [] as Position[], totals: null };
+
+  const [client, info] = await Promise.all([
+    getL2Client(phone),
+    // Gamma é só enriquecimento: se cair, devolve posições sem metadata
+    gammaTokenInfo(held).catch((error) => {
+      console.error("[Positions] Gamma enrichment failed:", error.message);
+      return {} as Awaited<ReturnType<typeof gammaTokenInfo>>;
+    }),
+  ]);
+
+  const positions: Position[] = [];
+
+  for (const tokenId of held) {
+    const shares = Number(utils.formatUnits(balances[tokenId]!, 6));
+
+    let bestBid: number | null = null;
+    let midpoint: number | null = null;
+    try {
+      const book = await client.getOrderBook(tokenId);
+      const quote = quoteFromBook(book, "SELL", shares);
+      bestBid = quote.bestPrice;
+      midpoint = quote.midpoint;
+    } catch (error: any) {
+      // Mercado resolvido/fechado não tem book
+      console.warn(`[Positions] No orderbook for ${tokenId}: ${error.message}`);
+    }
+
+    const { avgCost } = getCostBasis(phone, tokenId);
+    const costBasis = avgCost !== null ? avgCost * shares : null;
+    const valueAtBid = bestBid !== null ? bestBid * shares : null;
+    const valueAtMid = midpoint !== null ? midpoint * shares : null;
+    const meta = info[tokenId];
+
+    positions.push({
+      tokenId,
+      shares,
+      market: meta
+        ? { id: meta.marketId, question: meta.question, slug: meta.slug, outcome: meta.outcome, closed: meta.closed }
+        : null,
+      bestBid,
+      midpoint,
+      valueAtBid,
+      valueAtMid,
+      avgCost,
+      costBasis,
+      unrealizedPnlAtBid: valueAtBid !== null && costBasis !== null ? valueAtBid - costBasis : null,
+      unrealizedPnlAtMid: valueAtMid !== null && costBasis !== null ? valueAtMid - costBasis : null,
+    });
+  }
+
+  const sum = (pick: (p: Position) => number | null) =>
+    positions.reduce((acc, p) => acc + (pick(p) ?? 0), 0);
+
+  return {
+    address,
+    positions,
+    totals: {
+      valueAtBid: sum((p) => p.valueAtBid),
+      valueAtMid: sum((p) => p.valueAtMid),
+      costBasis: sum((p) => p.costBasis),
+      unrealizedPnlAtBid: sum((p) => p.unrealizedPnlAtBid),
+      unrealizedPnlAtMid: sum((p) => p.unrealizedPnlAtMid),
+    },
+  };
+}
+
+/**
+ * Redeem one resolved condition: binary markets through the CTF, neg-risk markets through
+ * the NegRiskAdapter. `tokens` = the market's tokens from Gamma (looked up if omitted).
+ */
+export async function redeemCondition(phone: string, conditionId: string, tokens?: GammaTokenInfo[]) {
+  const known = tokens ?? (await gammaConditionTokens(conditionId));
+  const [yes, no] = known;
+
+  if (yes?.negRisk && no) return redeemNegRiskPositions(phone, conditionId, [yes.tokenId, no.tokenId]);
+  return redeemPositions(phone, conditionId);
+}
+
+/**
+ * Find every resolved market the user still holds shares in and redeem them all.
+ * Candidates come from the ledger (tokens traded via the executor).
+ * One failing condition does not stop the others.
+ */
+export async function redeemAllResolved(phone: string) {
+  const address = await getPolymarketAddress(phone);
+  const ids = getTradedTokenIds(phone);
+
+  const balances = await getCtfBalances(address, ids);
+  const held = ids.filter((id) => balances[id] && !balances[id]!.isZero());
+  const info = await gammaTokenInfo(held);
+
+  const conditionIds = Array.from(
+    new Set(held.map((id) => info[id]?.conditionId).filter((c): c is string => Boolean(c))),
+  );
+
+  const redeemed: Awaited<ReturnType<typeof redeemCondition>>[] = [];
+  const failed: { conditionId: string; error: string }[] = [];
+  const unresolved: string[] = [];
+
+  for (const conditionId of conditionIds) {
+    try {
+      if (!(await isConditionResolved(conditionId))) {
+        unresolved.push(conditionId);
+        continue;
+      }
+      // info traz todos os tokens do market (YES e NO), não só os que o usuário tem
+      const tokens = Object.values(info).filter((t) => t.conditionId === conditionId);
+      redeemed.push(await redeemCondition(phone, conditionId, tokens));
+    } catch (error: any) {
+      console.error(`[Positions] Redeem failed for ${conditionId}:`, error.message);
+      failed.push({ conditionId, error: error.message });
+    }
+  }
+
+  const totalUsdcReceived = redeemed.reduce((acc, r) => acc + Number(r.usdcReceived), 0);
+
+  return { address, redeemed, failed, unresolved, totalUsdcReceived: totalUsdcReceived.toFixed(6) };
+}
@@ -0,0 +1,242 @@
+/**
+ * Pre-trade risk engine
+ * Every order goes through checkOrder() before reaching the CLOB.
+ *
+ * Checks (in order):
+ * - Kill switch (halts all trading)
+ * - User frozen by an operator (admin API)
+ * - Token blocklist / allowlist (global + per-user)
+ * - Max notional per order
+ * - Max notional per UTC day: reserved synchronously by checkOrder (concurrent orders
+ *   can't all pass before any of them counts) and released if the order fails
+ * - Max orders per minute
+ *
+ * Reduce-only orders (a batch unwinding its own fills) skip the kill switch, the per-order
+ * and daily caps and the rate limit, so they can always close exposure; they must be a
+ * SELL of at most the shares held.
+ *
+ * Config: RISK_CONFIG_FILE (JSON, reloaded when it changes) or RISK_* env vars.
+ * Per-phone overrides live in the file under `users`.
+ */
+
+import fs from "fs";
+import { openJsonStore, hashPhone } from "./localStore";
+import { ExecutorError } from "./errors";
+import { isUserFrozen } from "./userRegistry";
+
+export type RiskLimits = {
+  killSwitch?: boolean;
+  maxOrderNotional?: number; // USDC
+  maxDailyNotional?: number; // USDC
+  maxOrdersPerMinute?: number;
+  tokenAllowlist?: string[]; // se definido, só esses tokens podem ser negociados
+  tokenBlocklist?: string[];
+};
+
+type RiskConfigFile = {
+  defaults?: RiskLimits;
+  users?: Record<string, RiskLimits>; // phone → overrides
+};
+
+export type RiskCode =
+  | "RISK_KILL_SWITCH"
+  | "RISK_USER_FROZEN"
+  | "RISK_TOKEN_BLOCKED"
+  | "RISK_TOKEN_NOT_ALLOWED"
+  | "RISK_MAX_NOTIONAL"
+  | "RISK_DAILY_NOTIONAL"
+  | "RISK_RATE_LIMIT"
+  | "RISK_NOT_REDUCING";
+
+export class RiskError extends ExecutorError {
+  constructor(code: RiskCode, message: string, status = 403, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "RiskError";
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const raw = (process.env[name] || "").trim();
+  if (!raw) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function envList(name: string): string[] | undefined {
+  const raw = (process.env[name] || "").trim();
+  if (!raw) return undefined;
+  return raw.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function envLimits(): RiskLimits {
+  const limits: RiskLimits = { killSwitch: process.env.RISK_KILL_SWITCH === "true" };
+  const maxOrderNotional = envNumber("RISK_MAX_ORDER_NOTIONAL");
+  const maxDailyNotional = envNumber("RISK_MAX_DAILY_NOTIONAL");
+  const maxOrdersPerMinute = envNumber("RISK_MAX_ORDERS_PER_MINUTE");
+  const tokenAllowlist = envList("RISK_TOKEN_ALLOWLIST");
+  const tokenBlocklist = envList("RISK_TOKEN_BLOCKLIST");
+
+  if (maxOrderNotional !== undefined) limits.maxOrderNotional = maxOrderNotional;
+  if (maxDailyNotional !== undefined) limits.maxDailyNotional = maxDailyNotional;
+  if (maxOrdersPerMinute !== undefined) limits.maxOrdersPerMinute = maxOrdersPerMinute;
+  if (tokenAllowlist) limits.tokenAllowlist = tokenAllowlist;
+  if (tokenBlocklist) limits.tokenBlocklist = tokenBlocklist;
+  return limits;
+}
+
+// Config file: relido só quando o mtime muda (permite ligar o kill switch sem restart)
+const CONFIG_FILE = (process.env.RISK_CONFIG_FILE || "").trim();
+let cachedFile: { mtimeMs: number; config: RiskConfigFile } | null = null;
+
+function loadConfigFile(): RiskConfigFile {
+  if (!CONFIG_FILE) return {};
+
+  try {
+    const { mtimeMs } = fs.statSync(CONFIG_FILE);
+    if (!cachedFile || cachedFile.mtimeMs !== mtimeMs) {
+      cachedFile = { mtimeMs, config: JSON.parse(fs.readFileSync(CONFIG_FILE, "utf8")) };
+    }
+    return cachedFile.config;
+  } catch (error: any) {
+    // Config quebrada não pode liberar trading sem limites: mantém a última válida se houver
+    console.error(`[Risk] Failed to load ${CONFIG_FILE}:`, error.message);
+    if (cachedFile) return cachedFile.config;
+    throw new Error(`Risk config unreadable: ${CONFIG_FILE}`);
+  }
+}
+
+/**
+ * Effective limits for a user: env → file defaults → file per-phone overrides.
+ * The kill switch is global: on in any layer means on.
+ */
+export function getRiskLimits(phone: string): RiskLimits {
+  const file = loadConfigFile();
+  const env = envLimits();
+  const merged: RiskLimits = { ...env, ...file.defaults, ...file.users?.[phone] };
+  merged.killSwitch = Boolean(env.killSwitch || file.defaults?.killSwitch || file.users?.[phone]?.killSwitch);
+  return merged;
+}
+
+// Uso diário persistido (sobrevive a restart): phoneHash → { day, notional }
+const usageStore = openJsonStore<Record<string, { day: string; notional: number }>>("risk-usage.json", () => ({}));
+
+// Rate limit em memória: phone → timestamps dos últimos pedidos
+const recentOrders = new Map<string, number[]>();
+
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function dailyNotional(phone: string): number {
+  const usage = usageStore.get()[hashPhone(phone)];
+  return usage && usage.day === utcDay() ? usage.notional : 0;
+}
+
+export type OrderIntent = {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  /** Estimated USDC value of the order */
+  notional: number;
+  /** Closes exposure (batch unwind): shares of `tokenId` the position holds, e.g. a leg's recorded fill */
+  reduceOnly?: { heldShares: number; shares: number } | undefined;
+};
+
+export type RiskReservation = {
+  /** Give back the reserved daily notional (order failed / never reached the CLOB) */
+  release: () => void;
+};
+
+function addDailyNotional(phone: string, delta: number, day = utcDay()): void {
+  const key = hashPhone(phone);
+  usageStore.update((s) => {
+    const current = s[key];
+    const base = current && current.day === day ? current.notional : 0;
+    // Release de uma reserva de ontem não mexe no uso de hoje
+    if (delta < 0 && (!current || current.day !== day)) return;
+    s[key] = { day, notional: Math.max(0, base + delta) };
+  });
+}
+
+/**
+ * Throws RiskError if the order breaches any limit; otherwise reserves its notional
+ * towards the daily limit. Call `release()` if the order then fails.
+ * Counts towards the per-minute rate limit even if later rejected upstream.
+ */
+export function checkOrder(phone: string, order: OrderIntent): RiskReservation {
+  const limits = getRiskLimits(phone);
+  const reduceOnly = order.reduceOnly;
+
+  if (reduceOnly && (order.side !== "SELL" || reduceOnly.shares > reduceOnly.heldShares)) {
+    throw new RiskError("RISK_NOT_REDUCING", "Reduce-only order must sell at most the shares held", 422, {
+      side: order.side,
+      shares: reduceOnly.shares,
+      heldShares: reduceOnly.heldShares,
+    });
+  }
+
+  if (limits.killSwitch && !reduceOnly) {
+    throw new RiskError("RISK_KILL_SWITCH", "Trading is halted");
+  }
+
+  if (isUserFrozen(phone)) {
+    throw new RiskError("RISK_USER_FROZEN", "Trading is frozen for this user");
+  }
+
+  if (limits.tokenBlocklist?.includes(order.tokenId)) {
+    throw new RiskError("RISK_TOKEN_BLOCKED", `Token ${order.tokenId} is blocked`);
+  }
+
+  if (limits.tokenAllowlist && !limits.tokenAllowlist.includes(order.tokenId)) {
+    throw new RiskError("RISK_TOKEN_NOT_ALLOWED", `Token ${order.tokenId} is not in the allowlist`);
+  }
+
+  if (limits.maxOrderNotional !== undefined && order.notional > limits.maxOrderNotional && !reduceOnly) {
+    throw new RiskError(
+      "RISK_MAX_NOTIONAL",
+      `Order notional ${order.notional} exceeds max ${limits.maxOrderNotional} per order`,
+    );
+  }
+
+  // Reduce-only não consome limite nem reserva nada
+  if (reduceOnly) return { release: () => {} };
+
+  if (limits.maxDailyNotional !== undefined) {
+    const used = dailyNotional(phone);
+    if (used + order.notional > limits.maxDailyNotional) {
+      throw new RiskError(
+        "RISK_DAILY_NOTIONAL",
+        `Daily notional would reach ${used + order.notional} (max ${limits.maxDailyNotional})`,
+      );
+    }
+  }
+
+  if (limits.maxOrdersPerMinute !== undefined) {
+    const now = Date.now();
+    const window = (recentOrders.get(phone) || []).filter((t) => now - t < 60_000);
+
+    if (window.length >= limits.maxOrdersPerMinute) {
+      recentOrders.set(phone, window);
+      throw new RiskError(
+        "RISK_RATE_LIMIT",
+        `More than ${limits.maxOrdersPerMinute} orders per minute`,
+        429,
+      );
+    }
+
+    window.push(now);
+    recentOrders.set(phone, window);
+  }
+
+  // Sem await entre a checagem e a reserva: requests concorrentes veem o uso umas das outras
+  const day = utcDay();
+  addDailyNotional(phone, order.notional, day);
+
+  let released = false;
+  return {
+    release: () => {
+      if (released) return;
+      released = true;
+      addDailyNotional(phone, -order.notional, day);
+    },
+  };
+}
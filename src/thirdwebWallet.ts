@@ -7,39 +7,60 @@
  * - Each user gets unique address via: Hash(master_key + phone_number)
  * - Each user's address has its own private key (derived deterministically)
  * - Scalable to unlimited users without additional key management
+ *
+ * Derivation is versioned (see userRegistry): phones are canonical E.164 and each
+ * user keeps their version until migrated, so the derivation key can be rotated.
  */
 
 import { ThirdwebSDK } from '@thirdweb-dev/sdk';
 import { ethers, Signer, providers, utils, BigNumber } from 'ethers';
+import { getUserDerivationVersion, recordUserAddress } from './userRegistry';
+import { sendAndConfirm, TxError } from './txManager';
 
 // Environment validation
 const MASTER_PRIVATE_KEY = process.env.POLYMARKET_PRIVATE_KEY;
 const POLYGON_RPC_URL = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-const CHAIN_ID = 137; // Polygon
+const CHAIN_ID = Number(process.env.POLYMARKET_CHAIN_ID ?? '137'); // Polygon
 
 if (!MASTER_PRIVATE_KEY) {
   throw new Error('Missing POLYMARKET_PRIVATE_KEY environment variable');
 }
 
-// Cache for SDK instances per user (each user has unique derived key)
+// Cache for SDK instances per user+version (each user has unique derived key)
 const sdkCache = new Map<string, ThirdwebSDK>();
 
+/**
+ * Derivation keys per version
+ * - v1: original scheme, keccak256(master_key + phone)
+ * - v2: keccak256(POLYMARKET_DERIVATION_KEY_V2 + "v2:" + phone) — rotated key
+ */
+const DERIVATION_KEYS: Record<number, string | undefined> = {
+  1: MASTER_PRIVATE_KEY,
+  2: process.env.POLYMARKET_DERIVATION_KEY_V2?.trim() || undefined,
+};
+
+export const DERIVATION_VERSIONS = Object.keys(DERIVATION_KEYS)
+  .map(Number)
+  .filter((v) => Boolean(DERIVATION_KEYS[v]));
+
 /**
  * Derive deterministic private key for user
- * Uses: keccak256(master_key + phone_number) → unique private key per user
+ * Uses: keccak256(derivation_key + phone_number) → unique private key per user
  * 
  * Security: Phone number acts as salt, different users get different keys
- * Reproducibility: Same phone always generates same key/address
+ * Reproducibility: Same phone + version always generates same key/address
  */
-function deriveUserPrivateKey(phone: string): string {
-  // Create deterministic seed from master key + phone
-  const seed = ethers.utils.solidityKeccak256(
+function deriveUserPrivateKey(phone: string, version = getUserDerivationVersion(phone)): string {
+  const key = DERIVATION_KEYS[version];
+  if (!key) {
+    throw new Error(`Derivation key for version ${version} is not configured`);
+  }
+
+  // v1 mantém o formato original (sem prefixo) para não mudar endereços existentes
+  return ethers.utils.solidityKeccak256(
     ['bytes32', 'string'],
-    [MASTER_PRIVATE_KEY!, phone]
+    [key, version === 1 ? phone : `v${version}:${phone}`]
   );
-  
-  // Ensure valid private key (32 bytes)
-  return seed;
 }
 
 /**
@@ -47,15 +68,18 @@ function deriveUserPrivateKey(phone: string): string {
  * Each user gets unique SDK with their derived private key
  */
 function getSDKForUser(phone: string): ThirdwebSDK {
-  if (!sdkCache.has(phone)) {
-    const userPrivateKey = deriveUserPrivateKey(phone);
+  const version = getUserDerivationVersion(phone);
+  const cacheKey = `${version}:${phone}`;
+
+  if (!sdkCache.has(cacheKey)) {
+    const userPrivateKey = deriveUserPrivateKey(phone, version);
     const sdk = ThirdwebSDK.fromPrivateKey(
       userPrivateKey,
       'polygon'
     );
-    sdkCache.set(phone, sdk);
+    sdkCache.set(cacheKey, sdk);
   }
-  return sdkCache.get(phone)!;
+  return sdkCache.get(cacheKey)!;
 }
 
 // ============================================================================
@@ -196,7 +220,17 @@ export class ThirdwebSigner extends Signer {
  * Creates a standard ethers.Wallet from the user's derived private key
  */
 export async function getThirdwebSigner(phone: string): Promise<ethers.Wallet> {
-  const privateKey = await deriveUserPrivateKey(phone);
+  const wallet = getSignerForDerivation(phone, getUserDerivationVersion(phone));
+  recordUserAddress(phone, wallet.address);
+  return wallet;
+}
+
+/**
+ * Signer for an explicit (phone input, version) pair
+ * Used by the migration to reach legacy addresses (non-canonical phone formats, old versions)
+ */
+export function getSignerForDerivation(phoneInput: string, version: number): ethers.Wallet {
+  const privateKey = deriveUserPrivateKey(phoneInput, version);
   const provider = new providers.JsonRpcProvider(POLYGON_RPC_URL, {
     chainId: CHAIN_ID,
     name: 'polygon',
@@ -205,6 +239,13 @@ export async function getThirdwebSigner(phone: string): Promise<ethers.Wallet> {
   return new ethers.Wallet(privateKey, provider);
 }
 
+/**
+ * Master wallet (sponsors gas for the derived wallets, see gasManager)
+ */
+export function getMasterSigner(): ethers.Wallet {
+  return new ethers.Wallet(MASTER_PRIVATE_KEY!);
+}
+
 // ============================================================================
 // CONVENIENCE FUNCTIONS
 // ============================================================================
@@ -228,16 +269,16 @@ export async function sendNativeToken(
   try {
     const signer = await getThirdwebSigner(phone);
     
-    const tx = await signer.sendTransaction({
-      to: toAddress,
-      value: BigNumber.from(amountWei),
-    });
-
-    const receipt = await tx.wait();
+    const tx = await sendAndConfirm(
+      signer,
+      { to: toAddress, value: BigNumber.from(amountWei) },
+      { kind: 'native_transfer', phone }
+    );
 
-    return { txHash: receipt.transactionHash };
+    return { txHash: tx.hash };
   } catch (error: any) {
     console.error('[Thirdweb] sendNativeToken failed:', error);
+    if (error instanceof TxError) throw error;
     throw new Error(`Failed to send native token: ${error.message}`);
   }
 }
@@ -260,105 +301,3 @@ export async function getWalletBalance(phone: string): Promise<string> {
     throw new Error(`Failed to get balance: ${error.message}`);
   }
 }
-
-// ============================================================================
-// GAS MANAGEMENT (MATIC AUTO-TOP-UP)
-// ============================================================================
-
-const MATIC_TOP_UP_THRESHOLD_WEI = ethers.utils.parseEther('0.1'); // 0.1 MATIC
-const MATIC_TOP_UP_AMOUNT_WEI = ethers.utils.parseEther('0.5'); // Top up 0.5 MATIC each time
-const MASTER_WALLET_MIN_BALANCE_WEI = ethers.utils.parseEther('10'); // Alert if master < 10 MATIC
-
-/**
- * Ensure user wallet has sufficient MATIC for gas
- * Auto-tops up from master wallet if below threshold
- */
-export async function ensureGasBalance(userPhone: string): Promise<void> {
-  try {
-    const provider = new providers.JsonRpcProvider(POLYGON_RPC_URL, {
-      chainId: CHAIN_ID,
-      name: 'polygon',
-    });
-
-    // Get user wallet address
-    const userWallet = await getOrCreateServerWallet(userPhone);
-    const userBalance = await provider.getBalance(userWallet.address);
-
-    console.log(`[GasManager] User ${userPhone.slice(-4)} balance: ${ethers.utils.formatEther(userBalance)} MATIC`);
-
-    // Check if user needs top-up
-    if (userBalance.lt(MATIC_TOP_UP_THRESHOLD_WEI)) {
-      console.log(`[GasManager] User ${userPhone.slice(-4)} below threshold (${ethers.utils.formatEther(MATIC_TOP_UP_THRESHOLD_WEI)} MATIC), topping up...`);
-
-      // Create master wallet signer
-      const masterWallet = new ethers.Wallet(MASTER_PRIVATE_KEY!, provider);
-      const masterBalance = await provider.getBalance(masterWallet.address);
-
-      console.log(`[GasManager] Master wallet balance: ${ethers.utils.formatEther(masterBalance)} MATIC`);
-
-      // Check master wallet has sufficient balance
-      if (masterBalance.lt(MATIC_TOP_UP_AMOUNT_WEI)) {
-        throw new Error(`CRITICAL: Master wallet has insufficient MATIC (${ethers.utils.formatEther(masterBalance)} < ${ethers.utils.formatEther(MATIC_TOP_UP_AMOUNT_WEI)})`);
-      }
-
-      // Send MATIC from master to user
-      const tx = await masterWallet.sendTransaction({
-        to: userWallet.address,
-        value: MATIC_TOP_UP_AMOUNT_WEI,
-      });
-
-      console.log(`[GasManager] Top-up transaction sent: ${tx.hash}`);
-
-      await tx.wait();
-
-      console.log(`[GasManager] ✓ User ${userPhone.slice(-4)} topped up with ${ethers.utils.formatEther(MATIC_TOP_UP_AMOUNT_WEI)} MATIC`);
-    } else {
-      console.log(`[GasManager] ✓ User ${userPhone.slice(-4)} has sufficient MATIC`);
-    }
-  } catch (error: any) {
-    console.error(`[GasManager] Failed to ensure gas balance for ${userPhone.slice(-4)}:`, error);
-    throw new Error(`Gas balance check failed: ${error.message}`);
-  }
-}
-
-/**
- * Check master wallet balance and log warning if low
- * Should be called periodically (e.g., every hour)
- */
-export async function checkMasterWalletBalance(): Promise<void> {
-  try {
-    const provider = new providers.JsonRpcProvider(POLYGON_RPC_URL, {
-      chainId: CHAIN_ID,
-      name: 'polygon',
-    });
-
-    const masterWallet = new ethers.Wallet(MASTER_PRIVATE_KEY!, provider);
-    const masterBalance = await provider.getBalance(masterWallet.address);
-    const balanceEther = ethers.utils.formatEther(masterBalance);
-
-    console.log(`[GasManager] Master wallet balance: ${balanceEther} MATIC (${masterWallet.address})`);
-
-    if (masterBalance.lt(MASTER_WALLET_MIN_BALANCE_WEI)) {
-      console.warn(`⚠️  WARNING: Master wallet balance LOW (${balanceEther} MATIC < ${ethers.utils.formatEther(MASTER_WALLET_MIN_BALANCE_WEI)} MATIC)`);
-      console.warn(`⚠️  Please top up master wallet: ${masterWallet.address}`);
-    }
-  } catch (error: any) {
-    console.error('[GasManager] Failed to check master wallet balance:', error);
-  }
-}
-
-/**
- * Start periodic master wallet balance monitoring
- * Checks every hour and logs warnings if balance is low
- */
-export function startMasterWalletMonitoring(): void {
-  console.log('[GasManager] Starting master wallet balance monitoring (hourly)...');
-  
-  // Check immediately on startup
-  checkMasterWalletBalance();
-
-  // Check every hour (3600000 ms)
-  setInterval(() => {
-    checkMasterWalletBalance();
-  }, 3600000);
-}
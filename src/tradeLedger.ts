@@ -0,0 +1,386 @@
+/**
+ * Trade ledger
+ * Durable audit trail of every order request sent through the executor:
+ * who (phone hash + derived address), what (request body), and what the CLOB answered.
+ *
+ * Lifecycle: pending → (matched | live | delayed | unmatched | failed | rejected | error) → cancelled
+ *
+ * Fills: what matched on post comes from the CLOB response; later fills of a resting
+ * order (we are the maker) come from the user channel (fillTracker.ts → applyTradeEvent).
+ */
+
+import crypto from "crypto";
+import { openJsonStore, archiveRecords, hashPhone } from "./localStore";
+import { ExecutorError, UpstreamError } from "./errors";
+import { emitWebhook } from "./webhooks";
+
+export type LedgerStatus =
+  | "pending"
+  | "matched"
+  | "live"
+  | "delayed"
+  | "unmatched"
+  | "failed" // CLOB recusou / erro upstream
+  | "rejected" // barrado antes do CLOB (risco, slippage...)
+  | "error" // exceção (rede, RPC...)
+  | "cancelled";
+
+export type LedgerEntry = {
+  id: string;
+  phoneHash: string;
+  address: string;
+  kind: "market" | "limit";
+  tokenId: string;
+  side: "BUY" | "SELL";
+  request: Record<string, unknown>;
+  response: any;
+  orderId: string | null;
+  status: LedgerStatus;
+  fills: {
+    makingAmount: string | null;
+    takingAmount: string | null;
+    transactionsHashes: string[];
+  } | null;
+  tradeIds?: string[]; // trades do user channel já aplicados (maker fills)
+  error: { code: string | null; message: string } | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type CarriedBasis = { shares: number; cost: number };
+
+type LedgerState = {
+  entries: LedgerEntry[];
+  // Custo médio acumulado das entries já arquivadas: `${phoneHash}:${tokenId}` → base
+  carried?: Record<string, CarriedBasis>;
+};
+
+const TERMINAL: LedgerStatus[] = ["matched", "unmatched", "failed", "rejected", "error", "cancelled"];
+
+/**
+ * Archive finished entries past the retention, folding their fills into `carried` so the
+ * cost basis doesn't change. Per user + token only the oldest run is archived (an order
+ * still open keeps everything after it), so the average-cost order is preserved.
+ */
+function compactLedger(state: LedgerState, cutoffMs: number) {
+  const blocked = new Set<string>();
+  const archived: LedgerEntry[] = [];
+  const carried = state.carried ?? {};
+
+  state.entries = state.entries.filter((e) => {
+    const key = `${e.phoneHash}:${e.tokenId}`;
+    if (blocked.has(key) || !TERMINAL.includes(e.status) || Date.parse(e.updatedAt) >= cutoffMs) {
+      blocked.add(key);
+      return true;
+    }
+    carried[key] = applyFill(carried[key] ?? { shares: 0, cost: 0 }, e);
+    archived.push(e);
+    return false;
+  });
+
+  if (archived.length === 0) return;
+  archiveRecords("trade-ledger.json", archived);
+  state.carried = carried;
+  console.log(`[Ledger] Archived ${archived.length} entries older than the retention`);
+}
+
+const store = openJsonStore<LedgerState>("trade-ledger.json", () => ({ entries: [] }), { compact: compactLedger });
+
+/**
+ * CLOB post response that placed no order: `success: false`, an HTTP error
+ * (`{ error, status }`) or an error message without an order id
+ */
+export function isFailedResponse(response: any): boolean {
+  return !response || response.success === false || Boolean(response.error) || Boolean(response.errorMsg && !response.orderID);
+}
+
+function statusFromResponse(response: any): LedgerStatus {
+  if (isFailedResponse(response)) return "failed";
+  const status = String(response.status || "").toLowerCase();
+  if (status === "matched" || status === "live" || status === "delayed" || status === "unmatched") return status;
+  return "live";
+}
+
+export type LedgerRun = {
+  /** Undo a side effect (e.g. a risk reservation) if the order ends up failing */
+  onFailure: (undo: () => void) => void;
+};
+
+/**
+ * Record the order request, run `fn` (which posts to the CLOB) and record its outcome.
+ * The result/error of `fn` is passed through unchanged.
+ */
+export async function withLedger<T>(
+  entry: {
+    phone: string;
+    address: string;
+    kind: LedgerEntry["kind"];
+    tokenId: string;
+    side: LedgerEntry["side"];
+    request: Record<string, unknown>;
+  },
+  fn: (run: LedgerRun) => Promise<T>,
+): Promise<T> {
+  const now = new Date().toISOString();
+  const id = crypto.randomUUID();
+
+  store.update((s) => {
+    s.entries.push({
+      id,
+      phoneHash: hashPhone(entry.phone),
+      address: entry.address,
+      kind: entry.kind,
+      tokenId: entry.tokenId,
+      side: entry.side,
+      request: entry.request,
+      response: null,
+      orderId: null,
+      status: "pending",
+      fills: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  const patch = (changes: Partial<LedgerEntry>) =>
+    store.update((s) => {
+      const e = s.entries.find((x) => x.id === id);
+      if (e) Object.assign(e, changes, { updatedAt: new Date().toISOString() });
+    });
+
+  const undos: (() => void)[] = [];
+
+  try {
+    const response: any = await fn({ onFailure: (undo) => undos.push(undo) });
+    const status = statusFromResponse(response);
+    if (status === "failed") for (const undo of undos) undo();
+    patch({
+      response,
+      orderId: response?.orderID || null,
+      status,
+      fills: {
+        makingAmount: response?.makingAmount ?? null,
+        takingAmount: response?.takingAmount ?? null,
+        transactionsHashes: Array.isArray(response?.transactionsHashes) ? response.transactionsHashes : [],
+      },
+    });
+    notifyOrder(store.get().entries.find((e) => e.id === id)!);
+    return response;
+  } catch (error: any) {
+    for (const undo of undos) undo();
+    // UpstreamError = CLOB recusou; outros ExecutorError (risco, slippage...) = barrados antes do CLOB
+    patch({
+      status: error instanceof UpstreamError ? "failed" : error instanceof ExecutorError ? "rejected" : "error",
+      error: { code: error instanceof ExecutorError ? error.code : null, message: String(error?.message ?? error) },
+    });
+    throw error;
+  }
+}
+
+export function markOrdersCancelled(orderIds: string[]): void {
+  if (orderIds.length === 0) return;
+  const ids = new Set(orderIds);
+  const cancelled: LedgerEntry[] = [];
+
+  store.update((s) => {
+    const now = new Date().toISOString();
+    for (const e of s.entries) {
+      if (e.orderId && ids.has(e.orderId) && e.status !== "cancelled") {
+        e.status = "cancelled";
+        e.updatedAt = now;
+        cancelled.push({ ...e });
+      }
+    }
+  });
+
+  for (const e of cancelled) emitWebhook("order.cancelled", orderEventData(e), { phoneHash: e.phoneHash });
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+function orderEventData(e: LedgerEntry) {
+  return {
+    ledgerId: e.id,
+    orderId: e.orderId,
+    address: e.address,
+    kind: e.kind,
+    tokenId: e.tokenId,
+    side: e.side,
+    status: e.status,
+    request: e.request,
+    fills: e.fills,
+  };
+}
+
+/**
+ * Order accepted by the CLOB → order.posted, plus order.filled / order.partially_filled
+ * when it matched on post.
+ */
+function notifyOrder(e: LedgerEntry) {
+  if (e.status === "failed") return;
+
+  emitWebhook("order.posted", orderEventData(e), { phoneHash: e.phoneHash });
+  if (e.status === "matched") notifyFill(e);
+}
+
+/**
+ * order.filled / order.partially_filled with the cumulative filled quantity vs requested:
+ * market BUY = USDC (makingAmount), SELL = shares (makingAmount), limit BUY = shares (takingAmount).
+ */
+function notifyFill(e: LedgerEntry) {
+  if (!e.fills) return;
+
+  const requested = Number(e.kind === "market" ? e.request.amount : e.request.size);
+  const filled = Number(e.side === "SELL" || e.kind === "market" ? e.fills.makingAmount : e.fills.takingAmount);
+  if (!Number.isFinite(filled) || filled <= 0) return;
+
+  const partial = Number.isFinite(requested) && filled < requested * (1 - 1e-6);
+  emitWebhook(partial ? "order.partially_filled" : "order.filled", { ...orderEventData(e), filled, requested }, { phoneHash: e.phoneHash });
+}
+
+// ============================================================================
+// USER CHANNEL FILLS
+// ============================================================================
+
+/**
+ * Resting orders (live / delayed) per address, for the fill tracker
+ */
+export function listRestingOrders(): { address: string; orderId: string }[] {
+  return store
+    .get()
+    .entries.filter((e) => e.orderId && (e.status === "live" || e.status === "delayed"))
+    .map((e) => ({ address: e.address, orderId: e.orderId! }));
+}
+
+/**
+ * Apply a user-channel trade to the resting orders of `address` it filled as maker.
+ * Taker fills are already in the post response; each trade id is applied once.
+ */
+export function applyTradeEvent(address: string, trade: any): void {
+  if (String(trade?.status ?? "").toUpperCase() === "FAILED" || !trade?.id) return;
+
+  const makers: any[] = Array.isArray(trade.maker_orders) ? trade.maker_orders : [];
+  const byOrderId = new Map(makers.map((m) => [String(m.order_id), m]));
+  const updated: LedgerEntry[] = [];
+
+  store.update((s) => {
+    for (const e of s.entries) {
+      if (!e.orderId || e.address.toLowerCase() !== address.toLowerCase()) continue;
+      const maker = byOrderId.get(e.orderId);
+      if (!maker || e.tradeIds?.includes(trade.id)) continue;
+
+      const shares = Number(maker.matched_amount);
+      const price = Number(maker.price ?? e.request.price);
+      if (!Number.isFinite(shares) || shares <= 0 || !Number.isFinite(price)) continue;
+
+      const usdc = shares * price;
+      const making = Number(e.fills?.makingAmount) || 0;
+      const taking = Number(e.fills?.takingAmount) || 0;
+      // BUY: making = USDC, taking = shares; SELL: making = shares, taking = USDC
+      e.fills = {
+        makingAmount: String(making + (e.side === "BUY" ? usdc : shares)),
+        takingAmount: String(taking + (e.side === "BUY" ? shares : usdc)),
+        transactionsHashes: [...(e.fills?.transactionsHashes ?? []), ...(trade.transaction_hash ? [String(trade.transaction_hash)] : [])],
+      };
+      e.tradeIds = [...(e.tradeIds ?? []), String(trade.id)];
+
+      const filledShares = Number(e.side === "BUY" ? e.fills.takingAmount : e.fills.makingAmount);
+      if (filledShares >= Number(e.request.size) * (1 - 1e-6)) e.status = "matched";
+      e.updatedAt = new Date().toISOString();
+      updated.push({ ...e });
+    }
+  });
+
+  for (const e of updated) notifyFill(e);
+}
+
+export type HistoryFilters = {
+  tokenId?: string | undefined;
+  side?: "BUY" | "SELL" | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit: number;
+  offset: number;
+};
+
+/**
+ * User's ledger entries, newest first
+ */
+export function getOrderHistory(phone: string, filters: HistoryFilters) {
+  const phoneHash = hashPhone(phone);
+  const fromMs = filters.from?.getTime();
+  const toMs = filters.to?.getTime();
+
+  const matching = store
+    .get()
+    .entries.filter((e) => {
+      if (e.phoneHash !== phoneHash) return false;
+      if (filters.tokenId && e.tokenId !== filters.tokenId) return false;
+      if (filters.side && e.side !== filters.side) return false;
+      const t = Date.parse(e.createdAt);
+      if (fromMs !== undefined && t < fromMs) return false;
+      if (toMs !== undefined && t > toMs) return false;
+      return true;
+    })
+    .reverse();
+
+  return {
+    total: matching.length,
+    limit: filters.limit,
+    offset: filters.offset,
+    entries: matching.slice(filters.offset, filters.offset + filters.limit),
+  };
+}
+
+/**
+ * Tokens the user has orders for in the ledger
+ */
+export function getTradedTokenIds(phone: string): string[] {
+  const phoneHash = hashPhone(phone);
+  const { entries, carried = {} } = store.get();
+  const archived = Object.keys(carried)
+    .filter((key) => key.startsWith(`${phoneHash}:`) && carried[key]!.shares > 0)
+    .map((key) => key.slice(phoneHash.length + 1));
+
+  return Array.from(new Set([...archived, ...entries.filter((e) => e.phoneHash === phoneHash).map((e) => e.tokenId)]));
+}
+
+// Average-cost: BUY soma ao custo, SELL reduz shares ao custo médio atual
+function applyFill(basis: CarriedBasis, e: LedgerEntry): CarriedBasis {
+  if (!e.fills) return basis;
+
+  const making = Number(e.fills.makingAmount);
+  const taking = Number(e.fills.takingAmount);
+  if (!Number.isFinite(making) || !Number.isFinite(taking) || making <= 0 || taking <= 0) return basis;
+
+  if (e.side === "BUY") return { shares: basis.shares + taking, cost: basis.cost + making };
+  if (basis.shares <= 0) return basis;
+
+  const sold = Math.min(making, basis.shares);
+  return { shares: basis.shares - sold, cost: basis.cost - (basis.cost / basis.shares) * sold };
+}
+
+/**
+ * Average cost of the user's position in `tokenId`, from matched fills in the ledger
+ * (plus the carried basis of archived entries).
+ * Average-cost method: BUYs update the average, SELLs reduce shares at that average.
+ *
+ * Amounts (from the CLOB post response):
+ * - BUY: makingAmount = USDC paid, takingAmount = shares received
+ * - SELL: makingAmount = shares sold, takingAmount = USDC received
+ */
+export function getCostBasis(phone: string, tokenId: string) {
+  const phoneHash = hashPhone(phone);
+  const { entries, carried = {} } = store.get();
+
+  let basis = carried[`${phoneHash}:${tokenId}`] ?? { shares: 0, cost: 0 };
+  for (const e of entries) {
+    if (e.phoneHash === phoneHash && e.tokenId === tokenId) basis = applyFill(basis, e);
+  }
+
+  const { shares, cost } = basis;
+  return { shares, cost, avgCost: shares > 0 ? cost / shares : null };
+}
@@ -0,0 +1,314 @@
+/**
+ * Conditional orders (triggers): stop-loss, take-profit and plain price triggers
+ *
+ * - Persisted per user (triggers.json); the phone needed to sign the order is kept sealed
+ *   (AES-GCM, see localStore), lookups use the phone hash
+ * - Every token with an active trigger is watched through the shared market stream;
+ *   on each book update the trigger's price source (bid / ask / mid) is compared with
+ *   its trigger price
+ * - Firing sends a market order through the same path as POST /orders/market
+ *   (ledger, risk, slippage guard) and records why and when it fired
+ * - OCO: triggers sharing an `ocoGroup` cancel each other when one fires
+ *
+ * Lifecycle: active → firing → (fired | failed); active → (cancelled | expired)
+ */
+
+import crypto from "crypto";
+import { openJsonStore, hashPhone, sealSecret, openSecret, type SealedSecret } from "./localStore";
+import { subscribeBook, getTopOfBook } from "./marketStream";
+import { executeMarketOrder, type MarketOrderRequest } from "./marketOrders";
+import { ExecutorError, NotFoundError, toExecutorError } from "./errors";
+
+const MAX_ACTIVE_PER_USER = Number(process.env.TRIGGERS_MAX_ACTIVE_PER_USER ?? "50");
+const EXPIRY_SWEEP_MS = 30_000;
+
+export type TriggerType = "stop_loss" | "take_profit" | "price";
+export type TriggerStatus = "active" | "firing" | "fired" | "failed" | "cancelled" | "expired";
+export type PriceSource = "bid" | "ask" | "mid";
+
+export type Trigger = {
+  id: string;
+  phoneHash: string;
+  phoneSealed: SealedSecret;
+  type: TriggerType;
+  tokenId: string;
+  // stop_loss: preço <= triggerPrice; take_profit: preço >= triggerPrice; price: conforme direction
+  direction: "above" | "below";
+  triggerPrice: number;
+  priceSource: PriceSource;
+  order: MarketOrderRequest;
+  ocoGroup: string | null;
+  status: TriggerStatus;
+  expiresAt: string | null;
+  firedAt: string | null;
+  firedReason: { observedPrice: number; priceSource: PriceSource; bestBid: number | null; bestAsk: number | null } | null;
+  result: any;
+  error: { code: string; message: string } | null;
+  cancelReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TriggerInput = {
+  type: TriggerType;
+  tokenId: string;
+  triggerPrice: number;
+  direction?: "above" | "below" | undefined;
+  priceSource?: PriceSource | undefined;
+  order: MarketOrderRequest;
+  expiresAt?: number | undefined; // unix seconds
+};
+
+export class TriggerError extends ExecutorError {
+  constructor(code: "TRIGGER_NOT_ACTIVE" | "TRIGGER_LIMIT_REACHED", message: string, status = 409) {
+    super(code, message, status);
+    this.name = "TriggerError";
+  }
+}
+
+const store = openJsonStore<{ triggers: Trigger[] }>("triggers.json", () => ({ triggers: [] }));
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/** Public view (sem o telefone selado) */
+function view(t: Trigger) {
+  const { phoneSealed: _sealed, phoneHash: _hash, ...rest } = t;
+  return rest;
+}
+
+function patch(id: string, changes: Partial<Trigger>) {
+  store.update((s) => {
+    const t = s.triggers.find((x) => x.id === id);
+    if (t) Object.assign(t, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+function findOwn(phone: string, id: string): Trigger {
+  const t = store.get().triggers.find((x) => x.id === id && x.phoneHash === hashPhone(phone));
+  if (!t) throw new NotFoundError("TRIGGER_NOT_FOUND", `Trigger ${id} not found`);
+  return t;
+}
+
+function build(phone: string, input: TriggerInput, ocoGroup: string | null): Trigger {
+  const now = new Date().toISOString();
+  const direction = input.type === "stop_loss" ? "below" : input.type === "take_profit" ? "above" : input.direction!;
+
+  return {
+    id: crypto.randomUUID(),
+    phoneHash: hashPhone(phone),
+    phoneSealed: sealSecret(phone),
+    type: input.type,
+    tokenId: input.tokenId,
+    direction,
+    triggerPrice: input.triggerPrice,
+    // Quem vende recebe o bid; quem compra paga o ask
+    priceSource: input.priceSource ?? (input.order.side === "SELL" ? "bid" : "ask"),
+    order: input.order,
+    ocoGroup,
+    status: "active",
+    expiresAt: input.expiresAt ? new Date(input.expiresAt * 1000).toISOString() : null,
+    firedAt: null,
+    firedReason: null,
+    result: null,
+    error: null,
+    cancelReason: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function assertCapacity(phone: string, adding: number) {
+  const phoneHash = hashPhone(phone);
+  const active = store.get().triggers.filter((t) => t.phoneHash === phoneHash && t.status === "active").length;
+  if (active + adding > MAX_ACTIVE_PER_USER) {
+    throw new TriggerError("TRIGGER_LIMIT_REACHED", `At most ${MAX_ACTIVE_PER_USER} active triggers per user`, 429);
+  }
+}
+
+export function createTrigger(phone: string, input: TriggerInput) {
+  assertCapacity(phone, 1);
+
+  const trigger = build(phone, input, null);
+  store.update((s) => {
+    s.triggers.push(trigger);
+  });
+  syncWatchers();
+
+  console.log(`[Triggers] ${trigger.type} ${trigger.id} for user ${phone.slice(-4)}: ${trigger.tokenId} ${trigger.direction} ${trigger.triggerPrice}`);
+  return view(trigger);
+}
+
+/**
+ * Take-profit + stop-loss on the same position: whichever fires first cancels the other
+ */
+export function createOcoTriggers(
+  phone: string,
+  input: { tokenId: string; takeProfitPrice: number; stopLossPrice: number; priceSource?: PriceSource | undefined; order: MarketOrderRequest; expiresAt?: number | undefined },
+) {
+  assertCapacity(phone, 2);
+
+  const ocoGroup = crypto.randomUUID();
+  const common = { tokenId: input.tokenId, priceSource: input.priceSource, order: input.order, expiresAt: input.expiresAt };
+  const takeProfit = build(phone, { ...common, type: "take_profit", triggerPrice: input.takeProfitPrice }, ocoGroup);
+  const stopLoss = build(phone, { ...common, type: "stop_loss", triggerPrice: input.stopLossPrice }, ocoGroup);
+
+  store.update((s) => {
+    s.triggers.push(takeProfit, stopLoss);
+  });
+  syncWatchers();
+
+  console.log(`[Triggers] OCO ${ocoGroup} for user ${phone.slice(-4)}: ${input.tokenId} TP ${input.takeProfitPrice} / SL ${input.stopLossPrice}`);
+  return { ocoGroup, takeProfit: view(takeProfit), stopLoss: view(stopLoss) };
+}
+
+export function listTriggers(phone: string, status?: TriggerStatus) {
+  const phoneHash = hashPhone(phone);
+  return store
+    .get()
+    .triggers.filter((t) => t.phoneHash === phoneHash && (!status || t.status === status))
+    .slice()
+    .reverse()
+    .map(view);
+}
+
+export function getTrigger(phone: string, id: string) {
+  return view(findOwn(phone, id));
+}
+
+export function updateTrigger(
+  phone: string,
+  id: string,
+  changes: { triggerPrice?: number | undefined; amount?: number | undefined; expiresAt?: number | null | undefined },
+) {
+  const t = findOwn(phone, id);
+  if (t.status !== "active") throw new TriggerError("TRIGGER_NOT_ACTIVE", `Trigger ${id} is ${t.status}`);
+
+  patch(id, {
+    ...(changes.triggerPrice !== undefined ? { triggerPrice: changes.triggerPrice } : {}),
+    ...(changes.amount !== undefined ? { order: { ...t.order, amount: changes.amount } } : {}),
+    ...(changes.expiresAt !== undefined
+      ? { expiresAt: changes.expiresAt === null ? null : new Date(changes.expiresAt * 1000).toISOString() }
+      : {}),
+  });
+
+  // Preço novo pode já estar satisfeito
+  evaluateToken(t.tokenId);
+  return getTrigger(phone, id);
+}
+
+export function cancelTrigger(phone: string, id: string) {
+  const t = findOwn(phone, id);
+  if (t.status !== "active") throw new TriggerError("TRIGGER_NOT_ACTIVE", `Trigger ${id} is ${t.status}`);
+
+  patch(id, { status: "cancelled", cancelReason: "user" });
+  syncWatchers();
+  return getTrigger(phone, id);
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+const watchers = new Map<string, () => void>();
+
+// Um watcher por token com trigger ativo
+function syncWatchers() {
+  const tokens = new Set(store.get().triggers.filter((t) => t.status === "active").map((t) => t.tokenId));
+
+  for (const tokenId of tokens) {
+    if (!watchers.has(tokenId)) watchers.set(tokenId, subscribeBook(tokenId, () => evaluateToken(tokenId)));
+  }
+  for (const [tokenId, unsubscribe] of watchers) {
+    if (!tokens.has(tokenId)) {
+      unsubscribe();
+      watchers.delete(tokenId);
+    }
+  }
+}
+
+function observedPrice(source: PriceSource, bestBid: number | null, bestAsk: number | null): number | null {
+  if (source === "bid") return bestBid;
+  if (source === "ask") return bestAsk;
+  return bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+}
+
+function evaluateToken(tokenId: string) {
+  const top = getTopOfBook(tokenId);
+  if (!top) return;
+
+  const now = Date.now();
+  for (const t of store.get().triggers) {
+    if (t.tokenId !== tokenId || t.status !== "active") continue;
+    if (t.expiresAt && Date.parse(t.expiresAt) <= now) continue; // o sweep marca como expirado
+
+    const price = observedPrice(t.priceSource, top.bestBid, top.bestAsk);
+    if (price === null) continue;
+
+    const met = t.direction === "below" ? price <= t.triggerPrice : price >= t.triggerPrice;
+    if (met) {
+      fire(t, { observedPrice: price, priceSource: t.priceSource, bestBid: top.bestBid, bestAsk: top.bestAsk }).catch((e) =>
+        console.error(`[Triggers] Failed to fire ${t.id}:`, e),
+      );
+    }
+  }
+}
+
+async function fire(t: Trigger, reason: NonNullable<Trigger["firedReason"]>) {
+  // Marca antes de qualquer await: o próximo update do book não dispara de novo
+  patch(t.id, { status: "firing", firedAt: new Date().toISOString(), firedReason: reason });
+
+  if (t.ocoGroup) {
+    for (const sibling of store.get().triggers) {
+      if (sibling.ocoGroup === t.ocoGroup && sibling.id !== t.id && sibling.status === "active") {
+        patch(sibling.id, { status: "cancelled", cancelReason: `oco:${t.id}` });
+      }
+    }
+  }
+  syncWatchers();
+
+  console.log(`[Triggers] Firing ${t.type} ${t.id}: ${reason.priceSource} ${reason.observedPrice} ${t.direction} ${t.triggerPrice}`);
+
+  const phone = openSecret(t.phoneSealed);
+  if (!phone) {
+    patch(t.id, { status: "failed", error: { code: "TRIGGER_OWNER_UNAVAILABLE", message: "Could not unseal trigger owner" } });
+    return;
+  }
+
+  try {
+    const result = await executeMarketOrder(phone, t.order, { triggerId: t.id });
+    patch(t.id, { status: "fired", result });
+  } catch (error) {
+    const e = toExecutorError(error);
+    patch(t.id, { status: "failed", error: { code: e.code, message: e.message } });
+  }
+}
+
+function expireDue() {
+  const now = Date.now();
+  const due = store.get().triggers.filter((t) => t.status === "active" && t.expiresAt && Date.parse(t.expiresAt) <= now);
+  if (due.length === 0) return;
+
+  for (const t of due) patch(t.id, { status: "expired" });
+  syncWatchers();
+  console.log(`[Triggers] Expired ${due.length} trigger(s)`);
+}
+
+/**
+ * Resume watching persisted triggers (call once at boot)
+ */
+export function startTriggerEngine() {
+  // Disparo interrompido por restart: não sabemos se a ordem foi enviada, não repete
+  for (const t of store.get().triggers) {
+    if (t.status === "firing") {
+      patch(t.id, { status: "failed", error: { code: "TRIGGER_INTERRUPTED", message: "Executor restarted while firing; check order history" } });
+    }
+  }
+
+  expireDue();
+  syncWatchers();
+  setInterval(expireDue, EXPIRY_SWEEP_MS).unref();
+
+  console.log(`[Triggers] Engine started (${watchers.size} token(s) watched)`);
+}
@@ -0,0 +1,451 @@
+/**
+ * Transaction manager
+ * Every wallet send (master top-ups, approvals, redeems, transfers...) goes through here:
+ *
+ * - Nonces are assigned locally per address, one send at a time per address, so
+ *   concurrent sends from the same wallet (e.g. master top-ups) don't collide
+ * - Sent txs persist in transactions.json with every broadcast attempt
+ * - A monitor polls pending txs: a tx without receipt for TX_STUCK_AFTER_SECONDS is
+ *   replaced with bumped fees (same nonce); after TX_CANCEL_AFTER_SECONDS it is cancelled
+ *   instead (0-value self-transfer), at most TX_MAX_REPLACEMENTS times
+ * - Callers get a final receipt or a typed TxError (reverted / cancelled / dropped /
+ *   timeout) instead of hanging on tx.wait()
+ *
+ * Replacing needs the signer: txs left pending by a restart are monitored (receipts),
+ * and replaced once their wallet is used again or, for the master wallet, right away.
+ */
+
+import crypto from "crypto";
+import { BigNumber, Wallet, providers, utils } from "ethers";
+import { openJsonStore, archiveRecords, hashPhone } from "./localStore";
+import { feeOverrides, bumpedFees, type FeeOverrides } from "./gasFees";
+import { ExecutorError } from "./errors";
+
+const RPC_URL = (process.env.POLYGON_RPC_URL || "").trim() || "https://polygon-rpc.com";
+const POLYMARKET_CHAIN_ID = Number(process.env.POLYMARKET_CHAIN_ID ?? "137");
+const POLL_MS = Number(process.env.TX_POLL_SECONDS ?? "5") * 1000;
+const STUCK_AFTER_MS = Number(process.env.TX_STUCK_AFTER_SECONDS ?? "90") * 1000;
+const CANCEL_AFTER_MS = Number(process.env.TX_CANCEL_AFTER_SECONDS ?? "900") * 1000;
+const MAX_REPLACEMENTS = Number(process.env.TX_MAX_REPLACEMENTS ?? "5");
+const WAIT_TIMEOUT_MS = Number(process.env.TX_WAIT_TIMEOUT_SECONDS ?? "300") * 1000;
+
+export type TxStatus = "pending" | "confirmed" | "reverted" | "cancelled" | "dropped";
+
+export type TxAttempt = {
+  hash: string;
+  type: "original" | "speedup" | "cancel";
+  maxFeePerGas: string; // wei
+  maxPriorityFeePerGas: string; // wei
+  sentAt: string;
+};
+
+export type ManagedTx = {
+  id: string;
+  kind: string; // approve, redeem, transfer, gas_topup...
+  phoneHash: string | null;
+  from: string;
+  to: string;
+  value: string; // wei
+  data: string;
+  gasLimit: string;
+  nonce: number;
+  status: TxStatus;
+  attempts: TxAttempt[];
+  minedHash: string | null;
+  blockNumber: number | null;
+  gasUsed: string | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+export type TxResult = { id: string; hash: string; blockNumber: number; gasUsed: string; replaced: boolean };
+
+export type TxCode = "TX_WOULD_REVERT" | "TX_SEND_FAILED" | "TX_REVERTED" | "TX_CANCELLED" | "TX_DROPPED" | "TX_TIMEOUT";
+
+export class TxError extends ExecutorError {
+  constructor(code: TxCode, message: string, status = 502, details?: unknown) {
+    super(code, message, status, details);
+    this.name = "TxError";
+  }
+}
+
+// Txs finalizadas além da retenção vão pro arquivo (pendentes nunca)
+function compactTransactions(state: { transactions: ManagedTx[] }, cutoffMs: number) {
+  const old = (t: ManagedTx) => t.status !== "pending" && Date.parse(t.finishedAt ?? t.updatedAt) < cutoffMs;
+  archiveRecords("transactions.json", state.transactions.filter(old));
+  state.transactions = state.transactions.filter((t) => !old(t));
+}
+
+const store = openJsonStore<{ transactions: ManagedTx[] }>("transactions.json", () => ({ transactions: [] }), {
+  compact: compactTransactions,
+});
+
+const provider = new providers.JsonRpcProvider(RPC_URL, POLYMARKET_CHAIN_ID);
+
+// Signers conhecidos (por endereço) pra poder substituir txs presas
+const signers = new Map<string, Wallet>();
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+function patch(id: string, changes: Partial<ManagedTx>) {
+  store.update((s) => {
+    const t = s.transactions.find((x) => x.id === id);
+    if (t) Object.assign(t, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+function find(id: string): ManagedTx | undefined {
+  return store.get().transactions.find((t) => t.id === id);
+}
+
+type Waiter = { resolve: (r: TxResult) => void; reject: (e: TxError) => void };
+const waiters = new Map<string, Waiter[]>();
+
+function notify(t: ManagedTx, w: Waiter) {
+  if (t.status === "confirmed") {
+    w.resolve({ id: t.id, hash: t.minedHash!, blockNumber: t.blockNumber!, gasUsed: t.gasUsed!, replaced: t.attempts.length > 1 });
+  } else if (t.status === "reverted") {
+    w.reject(new TxError("TX_REVERTED", "Transaction reverted on-chain", 422, { id: t.id, hash: t.minedHash }));
+  } else if (t.status === "cancelled") {
+    w.reject(new TxError("TX_CANCELLED", "Transaction was stuck and got cancelled", 409, { id: t.id, hash: t.minedHash }));
+  } else {
+    w.reject(new TxError("TX_DROPPED", "Transaction was dropped (nonce used by another tx)", 502, { id: t.id }));
+  }
+}
+
+function settle(t: ManagedTx) {
+  const list = waiters.get(t.id) ?? [];
+  waiters.delete(t.id);
+  for (const w of list) notify(t, w);
+}
+
+// timeoutMs null = espera o desfecho final, sem TX_TIMEOUT
+function waitFor(id: string, timeoutMs: number | null): Promise<TxResult> {
+  return new Promise((resolve, reject) => {
+    const timer =
+      timeoutMs === null
+        ? null
+        : setTimeout(() => {
+            waiters.set(id, (waiters.get(id) ?? []).filter((w) => w !== waiter));
+            const t = find(id);
+            reject(
+              new TxError("TX_TIMEOUT", "Transaction not confirmed yet; it is still tracked", 504, {
+                id,
+                hash: t?.attempts[t.attempts.length - 1]?.hash,
+                nonce: t?.nonce,
+              }),
+            );
+          }, timeoutMs);
+
+    const waiter: Waiter = {
+      resolve: (r) => {
+        if (timer) clearTimeout(timer);
+        resolve(r);
+      },
+      reject: (e) => {
+        if (timer) clearTimeout(timer);
+        reject(e);
+      },
+    };
+    waiters.set(id, [...(waiters.get(id) ?? []), waiter]);
+  });
+}
+
+/**
+ * Id of the tx behind a TX_TIMEOUT: the send is ambiguous (the tx may still be mined)
+ * and keeps being tracked. Null for any other error, which is final.
+ */
+export function trackedTxId(error: unknown): string | null {
+  if (!(error instanceof TxError) || error.code !== "TX_TIMEOUT") return null;
+  const details = error.details as { id?: unknown } | undefined;
+  return typeof details?.id === "string" ? details.id : null;
+}
+
+/**
+ * Final outcome of a tracked tx, with no timeout: how callers that got TX_TIMEOUT
+ * (or resume after a restart) settle their own state. Same results and errors as
+ * sendAndConfirm.
+ */
+export function awaitTx(id: string): Promise<TxResult> {
+  const t = find(id);
+  if (!t) return Promise.reject(new TxError("TX_DROPPED", "Transaction is not tracked", 502, { id }));
+  if (t.status !== "pending") return new Promise((resolve, reject) => notify(t, { resolve, reject }));
+
+  startTxMonitor();
+  return waitFor(id, null);
+}
+
+// Um envio por endereço de cada vez (nonce local consistente)
+const locks = new Map<string, Promise<unknown>>();
+
+function exclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(key) ?? Promise.resolve()).then(fn);
+  const tail = run.catch(() => undefined);
+  locks.set(key, tail);
+  tail.then(() => {
+    if (locks.get(key) === tail) locks.delete(key);
+  });
+  return run;
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+const nextNonces = new Map<string, number>();
+
+async function allocateNonce(address: string): Promise<number> {
+  const chain = await provider.getTransactionCount(address, "pending");
+  const tracked = store
+    .get()
+    .transactions.filter((t) => t.from === address && t.status === "pending")
+    .reduce((n, t) => Math.max(n, t.nonce + 1), 0);
+  return Math.max(chain, tracked, nextNonces.get(address) ?? 0);
+}
+
+function isNonceError(error: any): boolean {
+  return /nonce too low|nonce has already been used|already known|replacement transaction underpriced/i.test(
+    String(error?.error?.message ?? error?.message ?? error),
+  );
+}
+
+// Node recusou o envio (saldo de gas, fee baixa, RPC fora): nada foi transmitido
+function sendFailed(error: any, kind: string, address: string): TxError {
+  return new TxError("TX_SEND_FAILED", String(error?.reason ?? error?.error?.message ?? error?.message ?? error), 502, {
+    kind,
+    address,
+    rpcCode: typeof error?.code === "string" ? error.code : null,
+  });
+}
+
+async function broadcast(wallet: Wallet, t: Pick<ManagedTx, "to" | "value" | "data" | "gasLimit" | "nonce">, fees: FeeOverrides) {
+  return wallet.sendTransaction({
+    to: t.to,
+    value: BigNumber.from(t.value),
+    data: t.data,
+    gasLimit: BigNumber.from(t.gasLimit),
+    nonce: t.nonce,
+    type: 2,
+    chainId: POLYMARKET_CHAIN_ID,
+    ...fees,
+  });
+}
+
+/**
+ * Send a tx from `signer` and wait for its final outcome.
+ * Resolves with the receipt of whichever attempt got mined; rejects with TxError.
+ */
+export async function sendAndConfirm(
+  signer: Wallet,
+  request: providers.TransactionRequest,
+  meta: { kind: string; phone?: string },
+): Promise<TxResult> {
+  startTxMonitor();
+
+  const wallet = signer.connect(provider);
+  const from = wallet.address;
+  signers.set(from, wallet);
+
+  const id = await exclusive(from, async () => {
+    let gasLimit: BigNumber;
+    try {
+      const estimate = await wallet.estimateGas({ ...request, from });
+      gasLimit = estimate.mul(120).div(100);
+    } catch (error: any) {
+      throw new TxError("TX_WOULD_REVERT", error?.reason ?? "Transaction would revert", 422, { kind: meta.kind });
+    }
+
+    const base = {
+      to: String(request.to),
+      value: BigNumber.from(request.value ?? 0).toString(),
+      data: utils.hexlify(request.data ?? "0x"),
+      gasLimit: gasLimit.toString(),
+    };
+    const fees = await feeOverrides(provider);
+
+    let nonce = await allocateNonce(from);
+    let sent: providers.TransactionResponse;
+    try {
+      sent = await broadcast(wallet, { ...base, nonce }, fees);
+    } catch (error) {
+      if (!isNonceError(error)) throw sendFailed(error, meta.kind, from);
+      // Nonce local desalinhado (tx de fora do executor?): ressincroniza com a chain e tenta uma vez
+      nextNonces.delete(from);
+      nonce = await provider.getTransactionCount(from, "pending");
+      sent = await broadcast(wallet, { ...base, nonce }, fees).catch((retryError) => {
+        throw sendFailed(retryError, meta.kind, from);
+      });
+    }
+    nextNonces.set(from, nonce + 1);
+
+    const now = new Date().toISOString();
+    const record: ManagedTx = {
+      id: crypto.randomUUID(),
+      kind: meta.kind,
+      phoneHash: meta.phone ? hashPhone(meta.phone) : null,
+      from,
+      ...base,
+      nonce,
+      status: "pending",
+      attempts: [
+        {
+          hash: sent.hash,
+          type: "original",
+          maxFeePerGas: fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+          sentAt: now,
+        },
+      ],
+      minedHash: null,
+      blockNumber: null,
+      gasUsed: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null,
+    };
+    store.update((s) => {
+      s.transactions.push(record);
+    });
+
+    console.log(`[TxManager] ${meta.kind} ${from} nonce ${nonce}: ${sent.hash}`);
+    return record.id;
+  });
+
+  return waitFor(id, WAIT_TIMEOUT_MS);
+}
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+function finish(t: ManagedTx, changes: Partial<ManagedTx>) {
+  patch(t.id, { ...changes, finishedAt: new Date().toISOString() });
+  const done = find(t.id)!;
+  console.log(`[TxManager] ${done.kind} ${done.id} ${done.status}${done.minedHash ? ` (${done.minedHash})` : ""}`);
+  settle(done);
+}
+
+async function minedAttempt(t: ManagedTx) {
+  for (const attempt of t.attempts) {
+    const receipt = await provider.getTransactionReceipt(attempt.hash);
+    if (receipt && receipt.blockNumber) return { attempt, receipt };
+  }
+  return null;
+}
+
+async function replace(t: ManagedTx, wallet: Wallet) {
+  const last = t.attempts[t.attempts.length - 1]!;
+  const fees = await bumpedFees(provider, {
+    maxFeePerGas: BigNumber.from(last.maxFeePerGas),
+    maxPriorityFeePerGas: BigNumber.from(last.maxPriorityFeePerGas),
+  });
+  if (!fees) {
+    console.warn(`[TxManager] ${t.id} stuck but fee cap leaves no room to bump`);
+    return;
+  }
+
+  // Presa há muito tempo: cancela (0 MATIC pra si mesmo com o mesmo nonce) em vez de insistir
+  const cancel = Date.now() - Date.parse(t.createdAt) > CANCEL_AFTER_MS;
+  const replacement = cancel
+    ? { to: t.from, value: "0", data: "0x", gasLimit: "21000", nonce: t.nonce }
+    : { to: t.to, value: t.value, data: t.data, gasLimit: t.gasLimit, nonce: t.nonce };
+
+  try {
+    const sent = await broadcast(wallet, replacement, fees);
+    patch(t.id, {
+      attempts: [
+        ...t.attempts,
+        {
+          hash: sent.hash,
+          type: cancel ? "cancel" : "speedup",
+          maxFeePerGas: fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+          sentAt: new Date().toISOString(),
+        },
+      ],
+    });
+    console.log(`[TxManager] ${t.id} stuck, ${cancel ? "cancel" : "speed-up"} sent: ${sent.hash}`);
+  } catch (error: any) {
+    // "nonce too low" aqui = alguma tentativa já foi minerada; o próximo tick pega o receipt
+    console.warn(`[TxManager] Replacement of ${t.id} failed: ${error?.message ?? error}`);
+  }
+}
+
+async function checkPending(t: ManagedTx) {
+  const mined = await minedAttempt(t);
+  if (mined) {
+    const ok = mined.receipt.status === 1;
+    return finish(t, {
+      status: !ok ? "reverted" : mined.attempt.type === "cancel" ? "cancelled" : "confirmed",
+      minedHash: mined.attempt.hash,
+      blockNumber: mined.receipt.blockNumber,
+      gasUsed: mined.receipt.gasUsed.toString(),
+    });
+  }
+
+  // Nonce já consumido na chain e nenhuma das nossas tentativas minerada → outra tx usou o nonce
+  const latest = await provider.getTransactionCount(t.from, "latest");
+  if (latest > t.nonce) {
+    if (await minedAttempt(t)) return; // minerou entre as consultas; próximo tick finaliza
+    return finish(t, { status: "dropped", error: "Nonce consumed by another transaction" });
+  }
+
+  const last = t.attempts[t.attempts.length - 1]!;
+  const wallet = signers.get(t.from);
+  const replacements = t.attempts.length - 1;
+  if (wallet && Date.now() - Date.parse(last.sentAt) > STUCK_AFTER_MS && replacements < MAX_REPLACEMENTS) {
+    await replace(t, wallet);
+  }
+}
+
+let monitor: NodeJS.Timeout | null = null;
+let checking = false;
+
+async function tick() {
+  if (checking) return;
+  checking = true;
+  try {
+    for (const t of store.get().transactions.filter((x) => x.status === "pending")) {
+      await exclusive(t.from, () => checkPending(t)).catch((e) => console.error(`[TxManager] Check of ${t.id} failed:`, e.message));
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Start polling pending txs (idempotent; also started by the first send)
+ */
+export function startTxMonitor(masterSigner?: Wallet) {
+  if (masterSigner) signers.set(masterSigner.address, masterSigner.connect(provider));
+  if (monitor) return;
+
+  monitor = setInterval(() => void tick(), POLL_MS);
+  monitor.unref();
+
+  const pending = store.get().transactions.filter((t) => t.status === "pending").length;
+  if (pending > 0) console.log(`[TxManager] Monitoring ${pending} pending transaction(s)`);
+}
+
+export function listTransactions(filters: { status?: TxStatus; address?: string; limit?: number } = {}) {
+  const address = filters.address ? utils.getAddress(filters.address) : null;
+  const all = store.get().transactions;
+  const matching = all.filter((t) => (!filters.status || t.status === filters.status) && (!address || t.from === address));
+
+  const counts: Record<string, number> = {};
+  for (const t of all) counts[t.status] = (counts[t.status] ?? 0) + 1;
+
+  return {
+    counts,
+    transactions: matching
+      .slice()
+      .reverse()
+      .slice(0, filters.limit ?? 100)
+      .map(({ phoneHash: _hash, ...rest }) => rest),
+  };
+}
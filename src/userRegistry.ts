@@ -0,0 +1,132 @@
+/**
+ * Known users and their wallet derivation version
+ *
+ * Keyed by hash of the canonical (E.164) phone. A user keeps the derivation version
+ * they were first seen with until a migration moves their funds to the current one,
+ * so rotating the derivation (DERIVATION_CURRENT_VERSION) never strands existing wallets.
+ *
+ * Raw phone formats seen for a user are kept only as digit-free masks (see phone.ts),
+ * so the migration can find funds in legacy non-canonical addresses.
+ *
+ * Once the wallet is used, its address is recorded with the phone sealed (AES-GCM, see
+ * localStore), so jobs that start from an address (deposit watcher) can act for the user.
+ */
+
+import { openJsonStore, hashPhone, sealSecret, openSecret, type SealedSecret } from "./localStore";
+import { phoneFormatMask } from "./phone";
+
+export const CURRENT_DERIVATION_VERSION = Number(process.env.DERIVATION_CURRENT_VERSION ?? "1");
+
+// Placeholder das rotas públicas (sem x-user-phone): nunca entra no registro
+export const ANONYMOUS_PHONE = "+5511000000000";
+
+export type UserRecord = {
+  version: number;
+  address?: string; // endereço da derivação atual (registrado ao montar o signer)
+  phoneSealed?: SealedSecret; // pra ações em background por endereço (depósitos)
+  createdAt: string;
+  migratedAt: string | null;
+  legacyMasks: string[];
+  frozen?: { reason: string; at: string } | null;
+};
+
+const store = openJsonStore<Record<string, UserRecord>>("users.json", () => ({}));
+
+/**
+ * Derivation version for a canonical phone (registers the user on first sight)
+ */
+export function getUserDerivationVersion(phone: string): number {
+  if (phone === ANONYMOUS_PHONE) return CURRENT_DERIVATION_VERSION;
+
+  const key = hashPhone(phone);
+  const existing = store.get()[key];
+  if (existing) return existing.version;
+
+  store.update((s) => {
+    s[key] = {
+      version: CURRENT_DERIVATION_VERSION,
+      createdAt: new Date().toISOString(),
+      migratedAt: null,
+      legacyMasks: [],
+    };
+  });
+  return CURRENT_DERIVATION_VERSION;
+}
+
+/**
+ * Remember the format of a non-canonical raw phone used for this user
+ */
+export function recordPhoneVariant(raw: string, phone: string): void {
+  if (raw.trim() === phone) return;
+
+  const key = hashPhone(phone);
+  const mask = phoneFormatMask(raw);
+  if (store.get()[key]?.legacyMasks.includes(mask)) return;
+
+  getUserDerivationVersion(phone);
+  store.update((s) => {
+    s[key]!.legacyMasks.push(mask);
+  });
+}
+
+export function getUserRecord(phone: string): UserRecord | undefined {
+  return store.get()[hashPhone(phone)];
+}
+
+export function markUserMigrated(phone: string, version: number): void {
+  getUserDerivationVersion(phone);
+  store.update((s) => {
+    const record = s[hashPhone(phone)]!;
+    record.version = version;
+    record.migratedAt = new Date().toISOString();
+    delete record.address; // muda com a versão; o próximo signer registra o novo
+  });
+}
+
+/**
+ * Remember the user's current wallet address (for the admin fleet view)
+ */
+export function recordUserAddress(phone: string, address: string): void {
+  if (phone === ANONYMOUS_PHONE) return;
+
+  const existing = store.get()[hashPhone(phone)];
+  if (existing?.address === address && existing.phoneSealed) return;
+
+  getUserDerivationVersion(phone);
+  store.update((s) => {
+    const record = s[hashPhone(phone)]!;
+    record.address = address;
+    record.phoneSealed = sealSecret(phone);
+  });
+}
+
+/**
+ * Phone of the user owning `address` (null if unknown or not unsealable)
+ */
+export function findPhoneByAddress(address: string): string | null {
+  const record = Object.values(store.get()).find((r) => r.address?.toLowerCase() === address.toLowerCase());
+  return record?.phoneSealed ? openSecret(record.phoneSealed) : null;
+}
+
+/**
+ * All known users, keyed by phone hash
+ */
+export function listUserRecords(): [string, UserRecord][] {
+  return Object.entries(store.get());
+}
+
+export function isUserFrozen(phone: string): boolean {
+  return Boolean(store.get()[hashPhone(phone)]?.frozen);
+}
+
+/**
+ * Freeze / unfreeze a user's trading by phone hash. Returns false for unknown users.
+ */
+export function setUserFrozen(phoneHash: string, frozen: { reason: string } | null): boolean {
+  if (!store.get()[phoneHash]) return false;
+
+  store.update((s) => {
+    s[phoneHash]!.frozen = frozen ? { reason: frozen.reason, at: new Date().toISOString() } : null;
+  });
+  return true;
+}
@@ -0,0 +1,148 @@
+/**
+ * Wallet migration between derivations
+ *
+ * Funds may sit in addresses the user no longer resolves to:
+ * - Older derivation versions (after DERIVATION_CURRENT_VERSION is bumped)
+ * - v1 addresses derived from non-canonical raw phones ("55 11 9...", "(11) 9...")
+ *   sent before phones were normalized to E.164
+ *
+ * planWalletMigration lists those source addresses with their balances (dry run);
+ * executeWalletMigration sweeps USDC + CTF positions into the current address and
+ * moves the user to CURRENT_DERIVATION_VERSION.
+ */
+
+import { utils } from "ethers";
+import { getSignerForDerivation, DERIVATION_VERSIONS } from "./thirdwebWallet";
+import { getWalletBalances, getCtfBalances, sweepWallet } from "./polymarketOnchain";
+import { CURRENT_DERIVATION_VERSION, getUserDerivationVersion, getUserRecord, markUserMigrated } from "./userRegistry";
+import { getTradedTokenIds } from "./tradeLedger";
+import { isPhoneVariant, applyPhoneMask } from "./phone";
+import { PAPER_MODE } from "./paperClob";
+import { evictL2Client } from "./polymarketClob";
+import { ExecutorError } from "./errors";
+
+export type MigrationCode = "MIGRATION_VARIANT_MISMATCH" | "MIGRATION_UNAVAILABLE_IN_PAPER_MODE";
+
+export class MigrationError extends ExecutorError {
+  constructor(code: MigrationCode, message: string, status = 400) {
+    super(code, message, status);
+    this.name = "MigrationError";
+  }
+}
+
+export type MigrationOptions = {
+  variants?: string[]; // raw phone formats used in the past (must normalize to the same phone)
+  tokenIds?: string[]; // extra CTF positions to look for, besides the ledger's traded tokens
+};
+
+type Source = { version: number; input: string; address: string };
+
+function sourcesFor(phone: string, variants: string[]): { target: Source; sources: Source[] } {
+  const targetSigner = getSignerForDerivation(phone, CURRENT_DERIVATION_VERSION);
+  const target = { version: CURRENT_DERIVATION_VERSION, input: phone, address: targetSigner.address };
+
+  const candidates: Array<{ version: number; input: string }> = DERIVATION_VERSIONS.map((version) => ({ version, input: phone }));
+
+  // Formatos brutos só existiam na v1 (antes da normalização)
+  if (DERIVATION_VERSIONS.includes(1)) {
+    for (const raw of variants) {
+      candidates.push({ version: 1, input: raw.trim() });
+    }
+  }
+
+  const seen = new Set([target.address]);
+  const sources: Source[] = [];
+  for (const c of candidates) {
+    const address = getSignerForDerivation(c.input, c.version).address;
+    if (seen.has(address)) continue;
+    seen.add(address);
+    sources.push({ ...c, address });
+  }
+  return { target, sources };
+}
+
+function collectVariants(phone: string, extra: string[]): string[] {
+  for (const raw of extra) {
+    if (!isPhoneVariant(raw, phone)) {
+      throw new MigrationError("MIGRATION_VARIANT_MISMATCH", "Every variant must normalize to the user's phone");
+    }
+  }
+
+  // Máscaras registradas → variantes brutas; descarta reconstruções que não batem com o telefone
+  const fromMasks = (getUserRecord(phone)?.legacyMasks ?? [])
+    .map((mask) => applyPhoneMask(phone, mask))
+    .filter((raw) => isPhoneVariant(raw, phone));
+
+  return Array.from(new Set([...fromMasks, ...extra.map((v) => v.trim())]));
+}
+
+function maskedInput(input: string, phone: string): string {
+  return input === phone ? "canonical" : input.replace(/\d(?=\d{4})/g, "*");
+}
+
+/**
+ * Dry run: source addresses and what would be moved from each
+ */
+export async function planWalletMigration(phone: string, opts: MigrationOptions = {}) {
+  if (PAPER_MODE) {
+    throw new MigrationError("MIGRATION_UNAVAILABLE_IN_PAPER_MODE", "Wallet migration needs a real chain", 409);
+  }
+
+  const currentVersion = getUserDerivationVersion(phone);
+  const { target, sources } = sourcesFor(phone, collectVariants(phone, opts.variants ?? []));
+  const tokenIds = Array.from(new Set([...getTradedTokenIds(phone), ...(opts.tokenIds ?? [])]));
+
+  const report = await Promise.all(
+    sources.map(async (s) => {
+      const [{ usdc, matic }, positions] = await Promise.all([
+        getWalletBalances(s.address),
+        getCtfBalances(s.address, tokenIds),
+      ]);
+      const held = Object.entries(positions).filter(([, amount]) => !amount.isZero());
+
+      return {
+        version: s.version,
+        input: maskedInput(s.input, phone),
+        address: s.address,
+        usdc: utils.formatUnits(usdc, 6),
+        matic: utils.formatEther(matic),
+        positions: held.map(([tokenId, amount]) => ({ tokenId, shares: utils.formatUnits(amount, 6) })),
+        hasFunds: !usdc.isZero() || held.length > 0,
+      };
+    }),
+  );
+
+  return {
+    currentVersion,
+    targetVersion: CURRENT_DERIVATION_VERSION,
+    target: target.address,
+    tokenIds,
+    sources: report,
+    needsMigration: currentVersion !== CURRENT_DERIVATION_VERSION || report.some((r) => r.hasFunds),
+  };
+}
+
+/**
+ * Sweep every funded source into the current address, then switch the user's version
+ */
+export async function executeWalletMigration(phone: string, opts: MigrationOptions = {}) {
+  const plan = await planWalletMigration(phone, opts);
+  const { sources } = sourcesFor(phone, collectVariants(phone, opts.variants ?? []));
+
+  const transfers = [];
+  for (const source of sources) {
+    const planned = plan.sources.find((r) => r.address === source.address);
+    if (!planned?.hasFunds) continue;
+
+    const signer = getSignerForDerivation(source.input, source.version);
+    transfers.push(await sweepWallet(signer, plan.target, plan.tokenIds, phone));
+  }
+
+  if (plan.currentVersion !== CURRENT_DERIVATION_VERSION) {
+    markUserMigrated(phone, CURRENT_DERIVATION_VERSION);
+    evictL2Client(phone);
+  }
+
+  console.log(`[Migration] User ${phone.slice(-4)} → v${CURRENT_DERIVATION_VERSION} (${transfers.length} wallets swept)`);
+  return { ...plan, transfers, migrated: true };
+}
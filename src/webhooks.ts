@@ -0,0 +1,255 @@
+/**
+ * Outbound webhooks (executor → core service)
+ *
+ * - Events are POSTed as JSON `{ id, type, createdAt, userId?, data }` to every URL in
+ *   WEBHOOK_URLS (optionally only the types in WEBHOOK_EVENTS); `userId` is the sha256
+ *   of the user's E.164 phone (same as hashPhone), phones never leave in clear
+ * - Each delivery is signed with WEBHOOK_SECRET: x-webhook-signature = hex HMAC-SHA256 of
+ *
+ *     TIMESTAMP \n DELIVERY_ID \n raw_body
+ *
+ *   with x-webhook-timestamp (unix seconds), x-webhook-id and x-webhook-event headers
+ * - Non-2xx / network errors retry with exponential backoff (WEBHOOK_RETRY_BASE_SECONDS,
+ *   doubling, capped at 1h); after WEBHOOK_MAX_ATTEMPTS the delivery goes to the
+ *   dead-letter store and can be replayed through the admin API
+ * - Deliveries persist in webhooks.json, so pending retries survive restarts
+ *
+ * emitWebhook never throws: a webhook problem must not break the action that caused it.
+ */
+
+import crypto from "crypto";
+import { openJsonStore, archiveRecords, hashPhone } from "./localStore";
+import { sign } from "./auth";
+import { NotFoundError } from "./errors";
+
+function envList(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const URLS = envList("WEBHOOK_URLS");
+const EVENTS = new Set(envList("WEBHOOK_EVENTS"));
+const SECRET = (process.env.WEBHOOK_SECRET || "").trim();
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? "8");
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? "5") * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_SECONDS ?? "10") * 1000;
+const DELIVERED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const DISPATCH_INTERVAL_MS = 1000;
+
+export type WebhookEventType =
+  | "order.posted"
+  | "order.filled"
+  | "order.partially_filled"
+  | "order.cancelled"
+  | "gas.topped_up"
+  | "master_wallet.low"
+  | "deposit.detected"
+  | "withdrawal.completed";
+
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  userId?: string;
+  data: Record<string, unknown>;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  lastStatus: number | null; // HTTP status da última tentativa
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+};
+
+// Dead letters não replayados dentro da retenção vão pro arquivo
+function compactDeliveries(state: { deliveries: WebhookDelivery[] }, cutoffMs: number) {
+  const old = (d: WebhookDelivery) => d.status === "dead" && Date.parse(d.updatedAt) < cutoffMs;
+  archiveRecords("webhooks.json", state.deliveries.filter(old));
+  state.deliveries = state.deliveries.filter((d) => !old(d));
+}
+
+const store = openJsonStore<{ deliveries: WebhookDelivery[] }>("webhooks.json", () => ({ deliveries: [] }), {
+  compact: compactDeliveries,
+});
+
+if (URLS.length > 0 && !SECRET) {
+  throw new Error("WEBHOOK_SECRET is required when WEBHOOK_URLS is set");
+}
+
+function patch(id: string, changes: Partial<WebhookDelivery>) {
+  store.update((s) => {
+    const d = s.deliveries.find((x) => x.id === id);
+    if (d) Object.assign(d, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+// ============================================================================
+// EMIT
+// ============================================================================
+
+/**
+ * Queue `type` for every configured URL (no-op without WEBHOOK_URLS)
+ */
+export function emitWebhook(type: WebhookEventType, data: Record<string, unknown>, user?: { phone?: string | undefined; phoneHash?: string | undefined }) {
+  if (URLS.length === 0 || (EVENTS.size > 0 && !EVENTS.has(type))) return;
+
+  try {
+    const now = new Date().toISOString();
+    const userId = user?.phoneHash ?? (user?.phone ? hashPhone(user.phone) : undefined);
+    const event: WebhookEvent = { id: crypto.randomUUID(), type, createdAt: now, ...(userId ? { userId } : {}), data };
+
+    store.update((s) => {
+      for (const url of URLS) {
+        s.deliveries.push({
+          id: crypto.randomUUID(),
+          url,
+          event,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: now,
+          lastError: null,
+          lastStatus: null,
+          createdAt: now,
+          updatedAt: now,
+          deliveredAt: null,
+        });
+      }
+    });
+    kick();
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to queue ${type}:`, error.message);
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+async function deliver(d: WebhookDelivery) {
+  const body = JSON.stringify(d.event);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const attempts = d.attempts + 1;
+
+  let error: string | null = null;
+  let status: number | null = null;
+  try {
+    const res = await fetch(d.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-webhook-id": d.id,
+        "x-webhook-event": d.event.type,
+        "x-webhook-timestamp": timestamp,
+        "x-webhook-signature": sign(SECRET, [timestamp, d.id, body].join("\n")),
+      },
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    status = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (e: any) {
+    error = String(e?.message ?? e);
+  }
+
+  if (!error) {
+    patch(d.id, { status: "delivered", attempts, lastError: null, lastStatus: status, deliveredAt: new Date().toISOString() });
+    return;
+  }
+
+  if (attempts >= MAX_ATTEMPTS) {
+    patch(d.id, { status: "dead", attempts, lastError: error, lastStatus: status });
+    console.error(`[Webhooks] ${d.event.type} ${d.id} → ${d.url} dead-lettered after ${attempts} attempts: ${error}`);
+    return;
+  }
+
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  patch(d.id, { attempts, lastError: error, lastStatus: status, nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+  console.warn(`[Webhooks] ${d.event.type} ${d.id} → ${d.url} failed (${error}), retry in ${Math.round(delay / 1000)}s`);
+}
+
+// Entregas em andamento: um tick novo não reenvia a mesma
+const inFlight = new Set<string>();
+
+async function dispatch() {
+  const now = Date.now();
+  const due = store
+    .get()
+    .deliveries.filter((d) => d.status === "pending" && !inFlight.has(d.id) && Date.parse(d.nextAttemptAt) <= now);
+
+  await Promise.all(
+    due.map(async (d) => {
+      inFlight.add(d.id);
+      try {
+        await deliver(d);
+      } finally {
+        inFlight.delete(d.id);
+      }
+    }),
+  );
+
+  pruneDelivered();
+}
+
+function kick() {
+  setImmediate(() => void dispatch().catch((e) => console.error("[Webhooks] Dispatch failed:", e.message)));
+}
+
+function pruneDelivered() {
+  const cutoff = Date.now() - DELIVERED_RETENTION_MS;
+  const stale = store.get().deliveries.some((d) => d.status === "delivered" && Date.parse(d.deliveredAt!) < cutoff);
+  if (!stale) return;
+
+  store.update((s) => {
+    s.deliveries = s.deliveries.filter((d) => d.status !== "delivered" || Date.parse(d.deliveredAt!) >= cutoff);
+  });
+}
+
+/**
+ * Resume pending deliveries (call once at boot)
+ */
+export function startWebhookDispatcher() {
+  if (URLS.length === 0) return;
+
+  setInterval(kick, DISPATCH_INTERVAL_MS).unref();
+
+  const pending = store.get().deliveries.filter((d) => d.status === "pending").length;
+  console.log(`[Webhooks] Dispatcher started (${URLS.length} URL(s), ${pending} pending)`);
+}
+
+// ============================================================================
+// DEAD LETTERS
+// ============================================================================
+
+export function listDeadLetters(limit = 100) {
+  const dead = store.get().deliveries.filter((d) => d.status === "dead");
+  return { total: dead.length, deliveries: dead.slice().reverse().slice(0, limit) };
+}
+
+/**
+ * Put dead deliveries back in the queue (all of them, or only `ids`) with a fresh attempt count
+ */
+export function replayDeadLetters(ids?: string[]) {
+  const dead = store.get().deliveries.filter((d) => d.status === "dead" && (!ids || ids.includes(d.id)));
+
+  if (ids) {
+    const missing = ids.filter((id) => !dead.some((d) => d.id === id));
+    if (missing.length > 0) throw new NotFoundError("WEBHOOK_DELIVERY_NOT_FOUND", `Dead delivery not found: ${missing.join(", ")}`);
+  }
+
+  const now = new Date().toISOString();
+  for (const d of dead) patch(d.id, { status: "pending", attempts: 0, nextAttemptAt: now });
+  if (dead.length > 0) kick();
+
+  console.log(`[Webhooks] Replaying ${dead.length} dead delivery(ies)`);
+  return { replayed: dead.map((d) => d.id) };
+}
@@ -0,0 +1,330 @@
+/**
+ * USDC withdrawals from derived user wallets
+ *
+ * Safety controls:
+ * - Destination must be on the user's allowlist (checksummed via normalizeAddress), and
+ *   a newly added address only becomes usable after WITHDRAWAL_ALLOWLIST_COOLDOWN_HOURS
+ *   (a stolen credential can't allowlist its own address and withdraw right away)
+ * - Daily cap per user (UTC day), counting pending + completed withdrawals
+ * - Two-step flow: create → pending with a one-time code → confirm with the code
+ *   (the core service delivers the code to the user out-of-band)
+ * - A transfer that times out (TX_TIMEOUT) may still be mined: the withdrawal stays
+ *   "sending" (still counted in the daily cap) and settles from the tx's final outcome
+ *
+ * Every withdrawal is recorded with its status and tx hash.
+ */
+
+import crypto from "crypto";
+import { utils } from "ethers";
+import { openJsonStore, hashPhone } from "./localStore";
+import { normalizeAddress, transferCollateral } from "./polymarketOnchain";
+import { awaitTx, trackedTxId } from "./txManager";
+import { ExecutorError } from "./errors";
+import { emitWebhook } from "./webhooks";
+
+const DAILY_CAP_USDC = Number(process.env.WITHDRAWAL_DAILY_CAP_USDC ?? "1000");
+const CODE_TTL_MS = Number(process.env.WITHDRAWAL_CODE_TTL_MINUTES ?? "10") * 60 * 1000;
+const MAX_CONFIRM_ATTEMPTS = 5;
+const ALLOWLIST_COOLDOWN_MS = Number(process.env.WITHDRAWAL_ALLOWLIST_COOLDOWN_HOURS ?? "24") * 60 * 60 * 1000;
+
+export type WithdrawalStatus = "pending" | "sending" | "completed" | "failed" | "expired" | "cancelled";
+
+export type Withdrawal = {
+  id: string;
+  phoneHash: string;
+  to: string;
+  amount: string; // USDC, decimal string
+  status: WithdrawalStatus;
+  codeHash: string;
+  attempts: number;
+  txHash: string | null;
+  txId?: string | undefined; // tx do txManager, quando o envio ficou ambíguo (TX_TIMEOUT)
+  error: string | null;
+  createdAt: string;
+  expiresAt: string;
+  updatedAt: string;
+};
+
+export type WithdrawalCode =
+  | "WITHDRAWAL_INVALID_ADDRESS"
+  | "WITHDRAWAL_DESTINATION_NOT_ALLOWED"
+  | "WITHDRAWAL_DESTINATION_COOLING_DOWN"
+  | "WITHDRAWAL_DAILY_CAP"
+  | "WITHDRAWAL_NOT_FOUND"
+  | "WITHDRAWAL_NOT_PENDING"
+  | "WITHDRAWAL_EXPIRED"
+  | "WITHDRAWAL_INVALID_CODE"
+  | "WITHDRAWAL_TOO_MANY_ATTEMPTS";
+
+export class WithdrawalError extends ExecutorError {
+  constructor(code: WithdrawalCode, message: string, status = 400) {
+    super(code, message, status);
+    this.name = "WithdrawalError";
+  }
+}
+
+export type AllowlistEntry = { address: string; addedAt: string };
+
+// Entradas antigas (string pura) são de antes do cooldown: já valem
+type StoredEntry = string | AllowlistEntry;
+
+const allowlistStore = openJsonStore<Record<string, StoredEntry[]>>("withdrawal-allowlist.json", () => ({}));
+const store = openJsonStore<{ withdrawals: Withdrawal[] }>("withdrawals.json", () => ({ withdrawals: [] }));
+
+function checksum(address: string): string {
+  try {
+    return normalizeAddress(address, "destination");
+  } catch {
+    throw new WithdrawalError("WITHDRAWAL_INVALID_ADDRESS", `Invalid address: ${address}`);
+  }
+}
+
+function hashCode(id: string, code: string): string {
+  return crypto.createHash("sha256").update(`${id}:${code}`).digest("hex");
+}
+
+function toPublic(w: Withdrawal) {
+  const { codeHash, phoneHash, ...rest } = w;
+  return rest;
+}
+
+// ============================================================================
+// ALLOWLIST
+// ============================================================================
+
+function toEntry(e: StoredEntry): AllowlistEntry {
+  return typeof e === "string" ? { address: e, addedAt: new Date(0).toISOString() } : e;
+}
+
+function entries(phoneHash: string): AllowlistEntry[] {
+  return (allowlistStore.get()[phoneHash] ?? []).map(toEntry);
+}
+
+function entryView(e: AllowlistEntry) {
+  const activeAt = new Date(Date.parse(e.addedAt) + ALLOWLIST_COOLDOWN_MS);
+  return { ...e, activeAt: activeAt.toISOString(), active: activeAt.getTime() <= Date.now() };
+}
+
+export function getAllowlist(phone: string) {
+  return entries(hashPhone(phone)).map(entryView);
+}
+
+/**
+ * Add a destination; it can only receive withdrawals once the cooldown has passed.
+ * Re-adding an address already on the list keeps its original addedAt.
+ */
+export function addToAllowlist(phone: string, address: string) {
+  const normalized = checksum(address);
+  const key = hashPhone(phone);
+
+  allowlistStore.update((s) => {
+    const current = (s[key] ?? []).map(toEntry);
+    if (!current.some((e) => e.address === normalized)) {
+      current.push({ address: normalized, addedAt: new Date().toISOString() });
+      console.log(`[Withdrawals] ${normalized} added to allowlist of user ${phone.slice(-4)}, usable in ${ALLOWLIST_COOLDOWN_MS / 3_600_000}h`);
+    }
+    s[key] = current;
+  });
+  return getAllowlist(phone);
+}
+
+export function removeFromAllowlist(phone: string, address: string) {
+  const normalized = checksum(address);
+  const key = hashPhone(phone);
+
+  allowlistStore.update((s) => {
+    s[key] = (s[key] ?? []).map(toEntry).filter((e) => e.address !== normalized);
+  });
+  return getAllowlist(phone);
+}
+
+// ============================================================================
+// WITHDRAWAL FLOW
+// ============================================================================
+
+function expireStale(now = Date.now()) {
+  const stale = store.get().withdrawals.filter((w) => w.status === "pending" && Date.parse(w.expiresAt) < now);
+  if (stale.length === 0) return;
+
+  store.update((s) => {
+    for (const w of s.withdrawals) {
+      if (w.status === "pending" && Date.parse(w.expiresAt) < now) {
+        w.status = "expired";
+        w.updatedAt = new Date(now).toISOString();
+      }
+    }
+  });
+}
+
+function usedToday(phoneHash: string): number {
+  const day = new Date().toISOString().slice(0, 10);
+  return store
+    .get()
+    .withdrawals.filter(
+      (w) =>
+        w.phoneHash === phoneHash &&
+        w.createdAt.startsWith(day) &&
+        (w.status === "pending" || w.status === "sending" || w.status === "completed"),
+    )
+    .reduce((acc, w) => acc + Number(w.amount), 0);
+}
+
+/**
+ * Step 1: validate and create a pending withdrawal.
+ * Returns the one-time confirmation code (only time it is ever exposed).
+ */
+export function createWithdrawal(phone: string, to: string, amount: number) {
+  expireStale();
+
+  const destination = checksum(to);
+  const phoneHash = hashPhone(phone);
+
+  const entry = getAllowlist(phone).find((e) => e.address === destination);
+  if (!entry) {
+    throw new WithdrawalError(
+      "WITHDRAWAL_DESTINATION_NOT_ALLOWED",
+      `Destination ${destination} is not on the user's allowlist`,
+      403,
+    );
+  }
+  if (!entry.active) {
+    throw new WithdrawalError(
+      "WITHDRAWAL_DESTINATION_COOLING_DOWN",
+      `Destination ${destination} was added recently and can receive withdrawals from ${entry.activeAt}`,
+      403,
+    );
+  }
+
+  const used = usedToday(phoneHash);
+  if (used + amount > DAILY_CAP_USDC) {
+    throw new WithdrawalError(
+      "WITHDRAWAL_DAILY_CAP",
+      `Daily withdrawal cap of ${DAILY_CAP_USDC} USDC would be exceeded (used ${used})`,
+      403,
+    );
+  }
+
+  const id = crypto.randomUUID();
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const now = new Date();
+
+  const withdrawal: Withdrawal = {
+    id,
+    phoneHash,
+    to: destination,
+    amount: amount.toFixed(6),
+    status: "pending",
+    codeHash: hashCode(id, code),
+    attempts: 0,
+    txHash: null,
+    error: null,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + CODE_TTL_MS).toISOString(),
+    updatedAt: now.toISOString(),
+  };
+
+  store.update((s) => {
+    s.withdrawals.push(withdrawal);
+  });
+
+  console.log(`[Withdrawals] Pending withdrawal ${id} for user ${phone.slice(-4)}: ${withdrawal.amount} USDC → ${destination}`);
+  return { withdrawal: toPublic(withdrawal), confirmationCode: code };
+}
+
+function findOwn(phone: string, id: string): Withdrawal {
+  const w = store.get().withdrawals.find((x) => x.id === id && x.phoneHash === hashPhone(phone));
+  if (!w) throw new WithdrawalError("WITHDRAWAL_NOT_FOUND", `Withdrawal ${id} not found`, 404);
+  return w;
+}
+
+function patch(id: string, changes: Partial<Withdrawal>) {
+  store.update((s) => {
+    const w = s.withdrawals.find((x) => x.id === id);
+    if (w) Object.assign(w, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+// Envio ambíguo: o desfecho da tx decide o status (até lá segue "sending" e conta no cap)
+function settleFromTx(w: Withdrawal, txId: string) {
+  awaitTx(txId).then(
+    ({ hash }) => {
+      patch(w.id, { status: "completed", txHash: hash, error: null });
+      console.log(`[Withdrawals] ${w.id} completed after a timeout: ${hash}`);
+      emitWebhook("withdrawal.completed", { withdrawalId: w.id, to: w.to, amount: w.amount, txHash: hash }, { phoneHash: w.phoneHash });
+    },
+    (error) => {
+      patch(w.id, { status: "failed", error: error.message });
+      console.warn(`[Withdrawals] ${w.id} failed after a timeout: ${error.message}`);
+    },
+  );
+}
+
+// Envios ambíguos deixados por um restart voltam a acompanhar a tx
+for (const w of store.get().withdrawals) {
+  if (w.status === "sending" && w.txId) settleFromTx(w, w.txId);
+}
+
+/**
+ * Step 2: confirm with the code and send the USDC transfer.
+ * On TX_TIMEOUT returns the withdrawal still "sending" (poll GET /polymarket/withdrawals).
+ */
+export async function confirmWithdrawal(phone: string, id: string, code: string) {
+  expireStale();
+  const w = findOwn(phone, id);
+
+  if (w.status === "expired") throw new WithdrawalError("WITHDRAWAL_EXPIRED", "Withdrawal code expired", 410);
+  if (w.status !== "pending") {
+    throw new WithdrawalError("WITHDRAWAL_NOT_PENDING", `Withdrawal is ${w.status}`, 409);
+  }
+
+  if (w.attempts >= MAX_CONFIRM_ATTEMPTS) {
+    patch(id, { status: "cancelled", error: "too many confirmation attempts" });
+    throw new WithdrawalError("WITHDRAWAL_TOO_MANY_ATTEMPTS", "Too many invalid codes, withdrawal cancelled", 429);
+  }
+
+  const expected = Buffer.from(w.codeHash, "hex");
+  const given = Buffer.from(hashCode(id, code), "hex");
+  if (!crypto.timingSafeEqual(expected, given)) {
+    patch(id, { attempts: w.attempts + 1 });
+    throw new WithdrawalError("WITHDRAWAL_INVALID_CODE", "Invalid confirmation code", 401);
+  }
+
+  // Marca antes de enviar: uma segunda confirmação concorrente cai em NOT_PENDING
+  patch(id, { status: "sending", attempts: w.attempts + 1 });
+
+  try {
+    const { txHash } = await transferCollateral(phone, w.to, utils.parseUnits(w.amount, 6));
+    patch(id, { status: "completed", txHash });
+    emitWebhook("withdrawal.completed", { withdrawalId: id, to: w.to, amount: w.amount, txHash }, { phone });
+  } catch (error: any) {
+    const txId = trackedTxId(error);
+    if (!txId) {
+      patch(id, { status: "failed", error: error.message });
+      throw error;
+    }
+
+    patch(id, { txId, txHash: error.details?.hash ?? null, error: error.message });
+    settleFromTx(findOwn(phone, id), txId);
+  }
+
+  return toPublic(findOwn(phone, id));
+}
+
+export function cancelWithdrawal(phone: string, id: string) {
+  const w = findOwn(phone, id);
+  if (w.status !== "pending") {
+    throw new WithdrawalError("WITHDRAWAL_NOT_PENDING", `Withdrawal is ${w.status}`, 409);
+  }
+  patch(id, { status: "cancelled" });
+  return toPublic(findOwn(phone, id));
+}
+
+export function listWithdrawals(phone: string) {
+  expireStale();
+  const phoneHash = hashPhone(phone);
+  return store
+    .get()
+    .withdrawals.filter((w) => w.phoneHash === phoneHash)
+    .reverse()
+    .map(toPublic);
+}